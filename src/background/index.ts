@@ -1,8 +1,217 @@
+import {
+    validateBackgroundMessage,
+    sendToTab,
+    BackgroundMessage,
+    BackgroundResponses,
+    MessageResponse,
+    UrlVisit,
+    ContextMenuAction
+} from '../services/messages';
+import { SavedTag } from '../services/tag-store';
+
+// Must match TagStore's storage key prefix
+const TAG_LIBRARY_PREFIX = 'tagLibrary:';
+const TAB_DOMAINS_KEY = 'tabDomains';
+const MAX_VISITS = 200;
+
+// Session and library state is read, changed and written back; running every such update through one
+// queue keeps tabs that load or navigate at the same time from overwriting each other's changes
+let updateQueue: Promise<unknown> = Promise.resolve();
+
+function serialized<T>(update: () => Promise<T>): Promise<T> {
+    const result = updateQueue.then(update);
+    updateQueue = result.catch(() => undefined);
+    return result;
+}
+
+const CONTEXT_MENU_ITEMS: Record<ContextMenuAction, string> = {
+    'tag-element': 'Tag this element',
+    'copy-selector': 'Copy best selector'
+};
+
 chrome.action.onClicked.addListener((tab) => {
-    if (tab.id) {
-        chrome.tabs.sendMessage(tab.id, { type: 'TOGGLE_OVERLAY' }).catch(() => {
-            // Ignore errors caused by restricted pages (e.g. chrome://) or content script not yet loaded
+    if (tab.id !== undefined) toggleOverlay(tab.id);
+});
+
+// Menus persist across service worker restarts, so they are only (re)created on install or update
+chrome.runtime.onInstalled.addListener(() => {
+    chrome.contextMenus.removeAll(() => {
+        for (const [id, title] of Object.entries(CONTEXT_MENU_ITEMS)) {
+            chrome.contextMenus.create({ id, title, contexts: ['all'] });
+        }
+    });
+});
+
+chrome.contextMenus.onClicked.addListener(async (info, tab) => {
+    if (tab?.id === undefined || !(info.menuItemId in CONTEXT_MENU_ITEMS)) return;
+    try {
+        await sendToTab(tab.id, {
+            type: 'CONTEXT_MENU_ACTION',
+            action: info.menuItemId as ContextMenuAction,
+            frameId: info.frameId ?? 0,
+            frameUrl: info.frameUrl
         });
+    } catch (e) {
+        // Without a content script nothing recorded the right-clicked element, so there is nothing to inject for
+        console.warn(`Shadow Tagger: no content script in tab ${tab.id}; reload the page to use the menu`, e);
     }
 });
-export { };
+
+chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+    handleMessage(message, sender)
+        .then(data => sendResponse({ ok: true, data } satisfies MessageResponse<unknown>))
+        .catch(e => {
+            console.error('Shadow Tagger: failed to handle message', message, e);
+            sendResponse({ ok: false, error: e instanceof Error ? e.message : String(e) } satisfies MessageResponse<unknown>);
+        });
+    return true; // Keeps the channel open for the async response
+});
+
+// Cross-tab sync: any tab that shows a changed domain reloads its library and badge
+chrome.storage.onChanged.addListener((changes, area) => {
+    if (area !== 'local') return;
+    Object.keys(changes)
+        .filter(key => key.startsWith(TAG_LIBRARY_PREFIX))
+        .forEach(key => notifyDomain(key.slice(TAG_LIBRARY_PREFIX.length)));
+});
+
+chrome.tabs.onRemoved.addListener((tabId) => serialized(async () => {
+    const domains = await getTabDomains();
+    delete domains[tabId];
+    await chrome.storage.session.set({ [TAB_DOMAINS_KEY]: domains });
+    await chrome.storage.session.remove(historyKey(tabId));
+}));
+
+async function handleMessage(raw: unknown, sender: chrome.runtime.MessageSender): Promise<BackgroundResponses[BackgroundMessage['type']]> {
+    const message = validateBackgroundMessage(raw);
+
+    switch (message.type) {
+        case 'PAGE_READY': {
+            const tabId = requireTab(sender);
+            await serialized(async () => {
+                const domains = await getTabDomains();
+                domains[tabId] = message.domain;
+                await chrome.storage.session.set({ [TAB_DOMAINS_KEY]: domains });
+            });
+            const tagCount = await countTags(message.domain);
+            await updateBadge(tabId, tagCount);
+            return { tagCount };
+        }
+        case 'STORAGE_GET':
+            return await chrome.storage.local.get(message.keys) as Record<string, unknown>;
+        case 'TAG_SAVE':
+            await serialized(() => updateTags(message.domain, tags => {
+                message.tags.forEach(tag => {
+                    const index = tags.findIndex(t => t.id === tag.id);
+                    if (index >= 0) {
+                        tags[index] = tag;
+                    } else {
+                        tags.push(tag);
+                    }
+                });
+                return tags;
+            }));
+            return null;
+        case 'TAG_REMOVE':
+            await serialized(() => updateTags(message.domain, tags => tags.filter(t => t.id !== message.id)));
+            return null;
+        case 'RECORD_VISIT': {
+            const key = historyKey(requireTab(sender));
+            await serialized(async () => {
+                const visits = await getHistory(key);
+                if (visits[visits.length - 1]?.url !== message.visit.url) {
+                    visits.push(message.visit);
+                    await chrome.storage.session.set({ [key]: visits.slice(-MAX_VISITS) });
+                }
+            });
+            return null;
+        }
+        case 'GET_TAB_HISTORY':
+            return getHistory(historyKey(requireTab(sender)));
+        case 'CLEAR_TAB_HISTORY': {
+            const key = historyKey(requireTab(sender));
+            // Queued behind pending visits, so none of them is written back after the clear
+            await serialized(() => chrome.storage.session.remove(key));
+            return null;
+        }
+    }
+}
+
+/**
+ * Shows the overlay, injecting the content scripts first if the tab was opened before
+ * the extension was installed or reloaded.
+ */
+async function toggleOverlay(tabId: number) {
+    try {
+        await sendToTab(tabId, { type: 'TOGGLE_OVERLAY' });
+        return;
+    } catch {
+        // No content script listening yet; fall through to injection
+    }
+
+    try {
+        await chrome.scripting.executeScript({ target: { tabId }, files: ['history-hook.js', 'shadow-root-hook.js'], world: 'MAIN' });
+        await chrome.scripting.executeScript({ target: { tabId }, files: ['content.js'] });
+        await sendToTab(tabId, { type: 'TOGGLE_OVERLAY' });
+    } catch (e) {
+        // Restricted pages (chrome://, the Web Store) cannot be scripted
+        console.warn(`Shadow Tagger: cannot run in tab ${tabId}`, e);
+        await chrome.action.setBadgeText({ tabId, text: '✕' });
+        await chrome.action.setTitle({ tabId, title: 'Shadow Tagger cannot run on this page' });
+    }
+}
+
+async function notifyDomain(domain: string) {
+    const domains = await getTabDomains();
+    const tagCount = await countTags(domain);
+
+    for (const [tabId, tabDomain] of Object.entries(domains)) {
+        if (tabDomain !== domain) continue;
+        await updateBadge(Number(tabId), tagCount);
+        try {
+            await sendToTab(Number(tabId), { type: 'TAG_LIBRARY_CHANGED', domain });
+        } catch {
+            // The tab navigated away or closed; its entry is replaced on the next PAGE_READY or removal
+        }
+    }
+}
+
+async function updateTags(domain: string, change: (tags: SavedTag[]) => SavedTag[]) {
+    const key = `${TAG_LIBRARY_PREFIX}${domain}`;
+    const result = await chrome.storage.local.get([key]);
+    await chrome.storage.local.set({ [key]: change((result[key] as SavedTag[] | undefined) || []) });
+}
+
+async function countTags(domain: string): Promise<number> {
+    const key = `${TAG_LIBRARY_PREFIX}${domain}`;
+    const result = await chrome.storage.local.get([key]);
+    return ((result[key] as unknown[] | undefined) || []).length;
+}
+
+async function updateBadge(tabId: number, tagCount: number) {
+    try {
+        await chrome.action.setBadgeText({ tabId, text: tagCount > 0 ? String(tagCount) : '' });
+        await chrome.action.setBadgeBackgroundColor({ tabId, color: '#0066ff' });
+    } catch {
+        // Tab closed in the meantime
+    }
+}
+
+async function getTabDomains(): Promise<Record<string, string>> {
+    const result = await chrome.storage.session.get([TAB_DOMAINS_KEY]);
+    return (result[TAB_DOMAINS_KEY] as Record<string, string> | undefined) || {};
+}
+
+async function getHistory(key: string): Promise<UrlVisit[]> {
+    const result = await chrome.storage.session.get([key]);
+    return (result[key] as UrlVisit[] | undefined) || [];
+}
+
+function historyKey(tabId: number): string {
+    return `tabHistory:${tabId}`;
+}
+
+function requireTab(sender: chrome.runtime.MessageSender): number {
+    if (sender.tab?.id === undefined) throw new Error('Message must come from a tab');
+    return sender.tab.id;
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { JSDOM } from 'jsdom';
+import { analyzeUrl, matchRule, queryHtml, attachDeclarativeShadowRoots, UsageError, EXIT_OK, EXIT_MISMATCH } from './commands';
+import { RuleSyntaxError } from '../services/url-rule-matcher';
+
+const SNAPSHOT = `
+    <div id="modal-dialog">
+        <ok-button>
+            <template shadowrootmode="open">
+                <span data-locator="button-ok">OK</span>
+                <inner-label><template shadowrootmode="open"><b class="label">OK</b></template></inner-label>
+            </template>
+        </ok-button>
+        <locked-panel><template shadowrootmode="closed"><b class="label">Hidden</b></template></locked-panel>
+    </div>
+`;
+
+describe('CLI commands', () => {
+    it('attaches nested declarative shadow roots', () => {
+        const document = new JSDOM(SNAPSHOT).window.document;
+        expect(attachDeclarativeShadowRoots(document)).toEqual({ open: 2, closed: 1 });
+        expect(document.querySelector('ok-button')!.shadowRoot!.querySelector('inner-label')!.shadowRoot).not.toBeNull();
+        expect(document.querySelectorAll('template')).toHaveLength(0);
+    });
+
+    it('queries through declarative shadow DOM but not into closed roots', () => {
+        const result = queryHtml(SNAPSHOT, 'b.label');
+        expect(result.exitCode).toBe(EXIT_OK);
+        expect(result.data).toMatchObject({ matchCount: 1, matches: [{ element: '<b.label>', inShadowRoot: true }] });
+    });
+
+    it('fails a query with no matches or an unexpected count', () => {
+        expect(queryHtml(SNAPSHOT, 'ok-button::shadow [data-locator="button-cancel"]').exitCode).toBe(EXIT_MISMATCH);
+        expect(queryHtml(SNAPSHOT, 'ok-button::shadow [data-locator="button-ok"]', { expect: 2 }).exitCode).toBe(EXIT_MISMATCH);
+        expect(queryHtml(SNAPSHOT, 'ok-button::shadow [data-locator="button-ok"]', { expect: 1 }).exitCode).toBe(EXIT_OK);
+        expect(() => queryHtml(SNAPSHOT, 'div[')).toThrow(UsageError);
+    });
+
+    it('fails match-rule when any URL does not match', () => {
+        const rule = '//*/account/*/details';
+        expect(matchRule(rule, ['https://a.com/account/1/details']).exitCode).toBe(EXIT_OK);
+        expect(matchRule(rule, ['https://a.com/account/1/details', 'https://a.com/account/1/edit']).exitCode).toBe(EXIT_MISMATCH);
+        expect(() => matchRule('//*/a/***', ['https://a.com/'])).toThrow(RuleSyntaxError);
+    });
+
+    it('analyzes a URL into its default rule', () => {
+        const result = analyzeUrl('https://app.example.com/landing?utm_source=news');
+        expect(result.data).toMatchObject({ rule: '//*/landing' });
+        expect(() => analyzeUrl('not a url')).toThrow(UsageError);
+    });
+});
@@ -0,0 +1,168 @@
+import { JSDOM } from 'jsdom';
+import { SelectorEngine } from '../services/selector-engine';
+import { URLProcessor, URLRuleState } from '../services/url-processor';
+import { URLRuleMatcher, RuleMatchResult } from '../services/url-rule-matcher';
+
+export const EXIT_OK = 0;
+export const EXIT_MISMATCH = 1;
+export const EXIT_ERROR = 2;
+
+export interface CommandResult {
+    data: unknown;     // Printed with --format json
+    text: string;      // Printed with --format text
+    exitCode: number;
+}
+
+/**
+ * Bad arguments or unreadable input, as opposed to a rule or selector that simply did not match.
+ */
+export class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UsageError';
+    }
+}
+
+export interface ShadowRootCounts {
+    open: number;
+    closed: number;
+}
+
+export interface QueryMatch {
+    element: string;        // e.g. <button#save.primary>
+    inShadowRoot: boolean;
+}
+
+function requireUrl(url: string): string {
+    try {
+        new URL(url);
+        return url;
+    } catch {
+        throw new UsageError(`Not a valid absolute URL: ${url}`);
+    }
+}
+
+export function analyzeUrl(url: string, processor = new URLProcessor()): CommandResult {
+    const state = processor.analyzeUrl(requireUrl(url));
+    const rule = processor.generateRule(state);
+
+    return {
+        data: { url, rule, state },
+        text: [`Rule: ${rule}`, ...describeState(state)].join('\n'),
+        exitCode: EXIT_OK
+    };
+}
+
+function describeState(state: URLRuleState): string[] {
+    const lines: string[] = [];
+    const note = (...parts: (string | undefined)[]) => {
+        const present = parts.filter(Boolean);
+        return present.length ? ` (${present.join('; ')})` : '';
+    };
+
+    if (state.pathSegments.length) {
+        lines.push('Path:');
+        state.pathSegments.forEach(seg => lines.push(
+            `  ${seg.isMatrix ? ';' : '/'}${seg.originalValue}  ${seg.type}${note(seg.detector, seg.piiWarning)}`));
+    }
+    if (state.queryParams.length) {
+        lines.push('Query:');
+        state.queryParams.forEach(p => lines.push(`  ${p.key}=${p.value}  ${p.type}${note(p.reason, p.piiWarning)}`));
+    }
+    if (state.hashComponents.length) {
+        lines.push('Hash:');
+        state.hashComponents.forEach(c => lines.push(
+            `  ${c.isBase ? c.key : `${c.key}=${c.value}`}  ${c.type}${note(c.isBase ? 'route' : undefined, c.piiWarning)}`));
+    }
+    return lines;
+}
+
+/**
+ * Tests a rule against URLs; exits with EXIT_MISMATCH if any of them does not match.
+ * Throws RuleSyntaxError for invalid rules.
+ */
+export function matchRule(rule: string, urls: string[], matcher = new URLRuleMatcher()): CommandResult {
+    if (urls.length === 0) throw new UsageError('match-rule needs at least one URL');
+    const parsed = matcher.parse(rule);
+    const results: RuleMatchResult[] = urls.map(url => matcher.test(parsed, url));
+    const matched = results.filter(r => r.matched).length;
+
+    const lines = results.flatMap(r => r.matched
+        ? [`✓ ${r.url}`]
+        : [`✗ ${r.url}`, ...r.reasons.map(reason => `    ${reason}`)]);
+    lines.push(`${matched} of ${results.length} URL(s) match ${rule}`);
+
+    return {
+        data: { rule, matched, total: results.length, results },
+        text: lines.join('\n'),
+        exitCode: matched === results.length ? EXIT_OK : EXIT_MISMATCH
+    };
+}
+
+/**
+ * jsdom does not parse declarative shadow DOM, so `<template shadowrootmode>` elements are turned
+ * into attached shadow roots here, including templates nested inside other shadow roots.
+ * Like browsers, only the first template of a host counts and hosts that cannot have a shadow root keep theirs as-is.
+ */
+export function attachDeclarativeShadowRoots(root: Document | ShadowRoot, counts: ShadowRootCounts = { open: 0, closed: 0 }): ShadowRootCounts {
+    root.querySelectorAll('template[shadowrootmode]').forEach(node => {
+        const template = node as HTMLTemplateElement;
+        const host = template.parentElement;
+        const mode = template.getAttribute('shadowrootmode');
+        if (!host || (mode !== 'open' && mode !== 'closed')) return;
+
+        let shadow: ShadowRoot;
+        try {
+            shadow = host.attachShadow({ mode });
+        } catch {
+            return;  // Host already has a shadow root, or is an element that cannot host one
+        }
+        shadow.appendChild(template.content);
+        template.remove();
+        counts[mode]++;
+        attachDeclarativeShadowRoots(shadow, counts);
+    });
+    return counts;
+}
+
+/**
+ * Counts the elements a Pendo selector matches in an HTML snapshot. Exits with EXIT_MISMATCH when
+ * nothing matches, or when `expect` is given and the count differs from it.
+ */
+export function queryHtml(html: string, selector: string, options: { expect?: number } = {}, engine = new SelectorEngine()): CommandResult {
+    const document = new JSDOM(html).window.document;
+    const shadowRoots = attachDeclarativeShadowRoots(document);
+
+    let elements: Element[];
+    try {
+        elements = engine.queryPendoSelector(selector, document);
+    } catch (e) {
+        throw new UsageError(`Invalid selector "${selector}": ${e instanceof Error ? e.message : String(e)}`);
+    }
+
+    const matches: QueryMatch[] = elements.map(el => ({
+        element: describeElement(el),
+        inShadowRoot: el.getRootNode() !== document
+    }));
+    const passed = options.expect === undefined ? matches.length > 0 : matches.length === options.expect;
+
+    const lines = [
+        `${matches.length} match(es) for ${selector}` + (options.expect === undefined ? '' : ` (expected ${options.expect})`),
+        ...matches.map(m => `  ${m.element}${m.inShadowRoot ? '  in shadow root' : ''}`)
+    ];
+    if (shadowRoots.closed > 0) {
+        lines.push(`Note: ${shadowRoots.closed} closed shadow root(s) cannot be queried, just as in Pendo`);
+    }
+
+    return {
+        data: { selector, matchCount: matches.length, expected: options.expect ?? null, shadowRoots, matches },
+        text: lines.join('\n'),
+        exitCode: passed ? EXIT_OK : EXIT_MISMATCH
+    };
+}
+
+function describeElement(el: Element): string {
+    const id = el.id ? `#${el.id}` : '';
+    const classes = Array.from(el.classList).map(c => `.${c}`).join('');
+    return `<${el.tagName.toLowerCase()}${id}${classes}>`;
+}
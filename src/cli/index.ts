@@ -0,0 +1,92 @@
+import { readFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { RuleSyntaxError } from '../services/url-rule-matcher';
+import { analyzeUrl, matchRule, queryHtml, CommandResult, UsageError, EXIT_OK, EXIT_ERROR } from './commands';
+
+const USAGE = `Usage: shadow-tagger <command> [options]
+
+Commands:
+  analyze-url <url>              Print the rule state and the default Pendo rule for a URL
+  match-rule <rule> <url...>     Test a Pendo page rule against one or more URLs
+  query <html-file> <selector>   Count the elements a Pendo selector matches in an HTML snapshot,
+                                 including declarative shadow DOM (<template shadowrootmode>)
+
+Options:
+  --format <text|json>           Output format (default: text)
+  --expect <count>               query: fail unless exactly <count> elements match
+  -h, --help                     Show this help
+
+Exit codes: 0 = success, 1 = mismatch, 2 = invalid arguments or input`;
+
+async function run(args: string[]): Promise<{ result: CommandResult; format: string }> {
+    let parsed;
+    try {
+        parsed = parseArgs({
+            args,
+            allowPositionals: true,
+            options: {
+                format: { type: 'string', default: 'text' },
+                expect: { type: 'string' },
+                help: { type: 'boolean', short: 'h' }
+            }
+        });
+    } catch (e) {
+        throw new UsageError(e instanceof Error ? e.message : String(e));
+    }
+    const { values, positionals } = parsed;
+
+    const format = values.format!;
+    if (format !== 'text' && format !== 'json') throw new UsageError(`Unknown format "${format}"`);
+    if (values.help) return { result: { data: { usage: USAGE }, text: USAGE, exitCode: EXIT_OK }, format };
+
+    const [command, ...rest] = positionals;
+    switch (command) {
+        case 'analyze-url':
+            if (rest.length !== 1) throw new UsageError('analyze-url takes exactly one URL');
+            return { result: analyzeUrl(rest[0]), format };
+        case 'match-rule':
+            return { result: matchRule(rest[0] ?? '', rest.slice(1)), format };
+        case 'query': {
+            if (rest.length !== 2) throw new UsageError('query takes an HTML file and a selector');
+            const expect = values.expect === undefined ? undefined : Number(values.expect);
+            if (expect !== undefined && !(Number.isInteger(expect) && expect >= 0)) {
+                throw new UsageError(`--expect must be a non-negative integer, got "${values.expect}"`);
+            }
+            let html: string;
+            try {
+                html = await readFile(rest[0], 'utf8');
+            } catch (e) {
+                throw new UsageError(`Cannot read ${rest[0]}: ${e instanceof Error ? e.message : String(e)}`);
+            }
+            return { result: queryHtml(html, rest[1], { expect }), format };
+        }
+        default:
+            throw new UsageError(command ? `Unknown command "${command}"` : 'No command given');
+    }
+}
+
+async function main() {
+    const args = process.argv.slice(2);
+    const json = args.includes('--format=json') || args.some((arg, i) => arg === '--format' && args[i + 1] === 'json');
+
+    try {
+        const { result, format } = await run(args);
+        console.log(format === 'json' ? JSON.stringify(result.data, null, 2) : result.text);
+        process.exitCode = result.exitCode;
+    } catch (e) {
+        // Unexpected failures are bugs; let them surface with a stack trace
+        if (!(e instanceof UsageError || e instanceof RuleSyntaxError)) throw e;
+
+        const position = e instanceof RuleSyntaxError ? e.position : undefined;
+        const message = position === undefined ? e.message : `${e.message} (at position ${position})`;
+        if (json) {
+            console.log(JSON.stringify({ error: e.message, position: position ?? null }, null, 2));
+        } else {
+            console.error(`shadow-tagger: ${message}`);
+            if (e instanceof UsageError) console.error('Run shadow-tagger --help for usage.');
+        }
+        process.exitCode = EXIT_ERROR;
+    }
+}
+
+main();
@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { DetectorRegistry, DetectorSettings } from '../services/segment-detectors';
+
+interface DetectorSettingsPanelProps {
+    registry: DetectorRegistry;
+    domain: string;
+    onChange: (settings: DetectorSettings) => void;
+}
+
+export const DetectorSettingsPanel: React.FC<DetectorSettingsPanelProps> = ({ registry, domain, onChange }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [name, setName] = useState('');
+    const [pattern, setPattern] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    const detectors = registry.list();
+    const enabledCount = detectors.filter(d => registry.isEnabled(d.id, domain)).length;
+
+    const toggleDetector = (id: string, enabled: boolean) => {
+        registry.setEnabled(id, domain, enabled);
+        onChange(registry.getSettings());
+    };
+
+    const removeDetector = (id: string) => {
+        registry.removeCustom(id);
+        onChange(registry.getSettings());
+    };
+
+    const addDetector = () => {
+        try {
+            registry.addCustom(name.trim(), pattern);
+        } catch (e) {
+            setError(`Invalid regular expression: ${(e as Error).message}`);
+            return;
+        }
+        setName('');
+        setPattern('');
+        setError(null);
+        onChange(registry.getSettings());
+    };
+
+    const inputStyle: React.CSSProperties = {
+        padding: '4px 6px',
+        fontSize: '11px',
+        border: '1px solid #ddd',
+        borderRadius: '4px',
+        minWidth: 0
+    };
+
+    return (
+        <section>
+            <div
+                onClick={() => setIsOpen(!isOpen)}
+                style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', cursor: 'pointer' }}
+            >
+                <label style={{ fontSize: '11px', fontWeight: 'bold', color: '#666', cursor: 'pointer' }}>
+                    DYNAMIC SEGMENT DETECTORS
+                </label>
+                <span style={{ fontSize: '10px', color: '#999' }}>
+                    {enabledCount}/{detectors.length} on {domain} {isOpen ? '▲' : '▼'}
+                </span>
+            </div>
+
+            {isOpen && (
+                <div data-no-drag style={{ marginTop: '8px', display: 'flex', flexDirection: 'column', gap: '4px' }}>
+                    {detectors.map(detector => (
+                        <label key={detector.id} style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '11px', cursor: 'pointer' }}>
+                            <input
+                                type="checkbox"
+                                checked={registry.isEnabled(detector.id, domain)}
+                                onChange={e => toggleDetector(detector.id, e.target.checked)}
+                            />
+                            <span style={{ fontWeight: 500, minWidth: '80px' }}>{detector.name}</span>
+                            <span style={{
+                                flex: 1,
+                                fontFamily: 'monospace',
+                                fontSize: '10px',
+                                color: '#999',
+                                overflow: 'hidden',
+                                textOverflow: 'ellipsis',
+                                whiteSpace: 'nowrap'
+                            }} title={detector.pattern.source}>
+                                {detector.pattern.source}
+                            </span>
+                            {!detector.builtIn && (
+                                <button
+                                    onClick={e => {
+                                        e.preventDefault();
+                                        removeDetector(detector.id);
+                                    }}
+                                    title="Remove detector"
+                                    style={{ background: 'none', border: 'none', color: '#cc0000', cursor: 'pointer', fontSize: '11px' }}
+                                >
+                                    ✕
+                                </button>
+                            )}
+                        </label>
+                    ))}
+
+                    <div style={{ display: 'flex', gap: '4px', marginTop: '6px' }}>
+                        <input
+                            value={name}
+                            onChange={e => setName(e.target.value)}
+                            placeholder="Name"
+                            style={{ ...inputStyle, width: '70px' }}
+                        />
+                        <input
+                            value={pattern}
+                            onChange={e => {
+                                setPattern(e.target.value);
+                                setError(null);
+                            }}
+                            placeholder="Regex, e.g. ^inv-\d{4}-\d+$"
+                            style={{ ...inputStyle, flex: 1, fontFamily: 'monospace' }}
+                        />
+                        <button
+                            onClick={addDetector}
+                            disabled={!name.trim() || !pattern}
+                            style={{
+                                padding: '4px 8px',
+                                background: 'white',
+                                border: '1px solid #0066ff',
+                                color: '#0066ff',
+                                borderRadius: '4px',
+                                cursor: name.trim() && pattern ? 'pointer' : 'not-allowed',
+                                opacity: name.trim() && pattern ? 1 : 0.5,
+                                fontSize: '11px'
+                            }}
+                        >
+                            Add
+                        </button>
+                    </div>
+                    {error && <div style={{ fontSize: '10px', color: '#cc0000' }}>{error}</div>}
+                    <div style={{ fontSize: '10px', color: '#999' }}>
+                        Changes apply to this domain and re-analyze the current URL.
+                    </div>
+                </div>
+            )}
+        </section>
+    );
+};
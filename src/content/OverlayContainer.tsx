@@ -1,14 +1,52 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Inspector, InspectorAnalysis } from './inspector';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Inspector, InspectorAnalysis, FrameContext, DEFAULT_PREVIEW_DELAY } from './inspector';
 import { PageTagging } from './PageTagging';
-import { ElementNode } from '../services/selector-engine';
+import { UrlHistory } from './url-history';
+import { BackgroundChannel } from './background-channel';
+import { TagLibrary } from './TagLibrary';
+import { SaveTagForm } from './SaveTagForm';
+import { SelectorWatchPanel } from './SelectorWatchPanel';
+import { PageScopePanel } from './PageScopePanel';
+import { ElementNode, SlotMode, SelectorCandidate, CandidateStrategy } from '../services/selector-engine';
+import { TagStore, SavedTag, FeatureTag, PageTag, PageScope } from '../services/tag-store';
+import { PIIDetectorSettings, PIIDetectorType, PII_DETECTOR_LABELS } from '../services/pii-sanitizer';
 
 interface OverlayProps {
     inspector: Inspector;
+    urlHistory: UrlHistory;
+    channel: BackgroundChannel;
 }
 
-export const OverlayContainer: React.FC<OverlayProps> = ({ inspector }) => {
-    const [activeTab, setActiveTab] = useState<'feature' | 'page'>('feature');
+const STRATEGY_LABELS: Record<CandidateStrategy, string> = {
+    'priority-attr': 'Priority attribute',
+    'id': 'ID',
+    'class': 'Tag + class',
+    'ancestor-anchored': 'Ancestor anchored',
+    'nth-of-type': 'Position'
+};
+
+/**
+ * Writes to the clipboard, falling back to a hidden textarea when the page document
+ * does not have focus (e.g. right after a context menu closes).
+ */
+async function copyText(text: string, doc: Document) {
+    try {
+        await navigator.clipboard.writeText(text);
+    } catch {
+        const textarea = doc.createElement('textarea');
+        textarea.value = text;
+        textarea.style.position = 'fixed';
+        textarea.style.opacity = '0';
+        doc.body.appendChild(textarea);
+        textarea.select();
+        const copied = doc.execCommand('copy');
+        textarea.remove();
+        if (!copied) throw new Error('Clipboard unavailable');
+    }
+}
+
+export const OverlayContainer: React.FC<OverlayProps> = ({ inspector, urlHistory, channel }) => {
+    const [activeTab, setActiveTab] = useState<'feature' | 'page' | 'library'>('feature');
     const [position, setPosition] = useState(() => ({
         x: Math.max(20, window.innerWidth - 370),
         y: 20
@@ -20,11 +58,23 @@ export const OverlayContainer: React.FC<OverlayProps> = ({ inspector }) => {
     const [selectorPath, setSelectorPath] = useState<ElementNode[]>([]);
     const [selectedNodeIndex, setSelectedNodeIndex] = useState<number>(0);
     const [matchCount, setMatchCount] = useState<number>(0);
+    const [frameContext, setFrameContext] = useState<FrameContext | undefined>(undefined);
+    const [crossOriginFrame, setCrossOriginFrame] = useState<FrameContext | null>(null);
+    const [slotPaths, setSlotPaths] = useState<Record<SlotMode, ElementNode[]> | null>(null);
+    const [slotMode, setSlotMode] = useState<SlotMode>('light');
     const [options, setOptions] = useState<any>({
         priorityAttributes: ['data-testid', 'data-pendo-id', 'aria-label'],
         prioritizeIds: true
     });
     const [newAttr, setNewAttr] = useState('');
+    const [piiSettings, setPiiSettings] = useState<PIIDetectorSettings>(() => inspector.getEngine().getSanitizer().getSettings());
+    const [previewDelay, setPreviewDelay] = useState(DEFAULT_PREVIEW_DELAY);
+    const tagStore = useMemo(() => new TagStore(), []);
+    const [editingFeatureTag, setEditingFeatureTag] = useState<FeatureTag | null>(null);
+    const [restoredPageTag, setRestoredPageTag] = useState<PageTag | null>(null);
+    // Latest rule from the Page Tagging tab, and the one attached to the current feature
+    const [currentPageRule, setCurrentPageRule] = useState<PageScope | null>(null);
+    const [pageScope, setPageScope] = useState<PageScope | null>(null);
 
     useEffect(() => {
         const handleResize = () => {
@@ -39,11 +89,19 @@ export const OverlayContainer: React.FC<OverlayProps> = ({ inspector }) => {
 
     useEffect(() => {
         // Load settings from storage on mount
-        chrome.storage.local.get(['selectorOptions'], (result) => {
+        chrome.storage.local.get(['selectorOptions', 'piiDetectors', 'hoverPreviewDelay'], (result) => {
             if (result.selectorOptions) {
                 setOptions(result.selectorOptions);
                 inspector.setOptions(result.selectorOptions);
             }
+            if (result.piiDetectors) {
+                inspector.getEngine().getSanitizer().setSettings(result.piiDetectors);
+                setPiiSettings(inspector.getEngine().getSanitizer().getSettings());
+            }
+            if (typeof result.hoverPreviewDelay === 'number') {
+                setPreviewDelay(result.hoverPreviewDelay);
+                inspector.setPreviewDelay(result.hoverPreviewDelay);
+            }
         });
     }, [inspector]);
 
@@ -53,6 +111,20 @@ export const OverlayContainer: React.FC<OverlayProps> = ({ inspector }) => {
         chrome.storage.local.set({ selectorOptions: newOptions });
     };
 
+    const togglePiiDetector = (type: PIIDetectorType) => {
+        const newSettings = { ...piiSettings, [type]: !piiSettings[type] };
+        setPiiSettings(newSettings);
+        inspector.getEngine().getSanitizer().setSettings(newSettings);
+        chrome.storage.local.set({ piiDetectors: newSettings });
+    };
+
+    const updatePreviewDelay = (value: string) => {
+        const delay = Math.max(0, Math.round(Number(value) || 0));
+        setPreviewDelay(delay);
+        inspector.setPreviewDelay(delay);
+        chrome.storage.local.set({ hoverPreviewDelay: delay });
+    };
+
     const addAttribute = () => {
         if (!newAttr.trim()) return;
         const newAttrs = [...options.priorityAttributes];
@@ -69,18 +141,24 @@ export const OverlayContainer: React.FC<OverlayProps> = ({ inspector }) => {
     };
 
     const draggingRef = useRef(false);
+    // Inspector hooks are registered once per activation, so they read the path through a ref
+    const selectorPathRef = useRef<ElementNode[]>([]);
+    selectorPathRef.current = selectorPath;
     const offsetRef = useRef({ x: 0, y: 0 });
 
+    // Selectors for elements inside a same-origin iframe are relative to that iframe's document
+    const queryRoot = selectorPath[0]?.element?.ownerDocument ?? document;
+
     useEffect(() => {
         if (lastSelector) {
-            const matches = inspector.getEngine().queryPendoSelector(lastSelector);
+            const matches = inspector.getEngine().queryPendoSelector(lastSelector, queryRoot);
             setMatchCount(matches.length);
-            inspector.getHighlighter().highlightSelection(matches);
+            inspector.getHighlighter().highlightSelection(matches, matches.length > 1 ? 'warning' : 'default');
         } else {
             setMatchCount(0);
             inspector.getHighlighter().clearSelection();
         }
-    }, [lastSelector, inspector]);
+    }, [lastSelector, inspector, queryRoot]);
 
     useEffect(() => {
         const handleUpdate = () => {
@@ -132,27 +210,107 @@ export const OverlayContainer: React.FC<OverlayProps> = ({ inspector }) => {
         };
     }, [position]);
 
+    const loadAnalysis = (analysis: InspectorAnalysis) => {
+        setLastSelector(analysis.selector);
+        setBreadcrumbs(analysis.breadcrumbs);
+        setIsInsideShadow(analysis.isInsideShadow);
+        setSelectorPath(analysis.path);
+        setSelectedNodeIndex(0);
+        setEditingFeatureTag(null);
+        setFrameContext(analysis.frame);
+        setSlotPaths(analysis.slotPath ? { light: analysis.path, slot: analysis.slotPath } : null);
+        setSlotMode('light');
+    };
+
     const toggleInspector = () => {
         if (isInspectorActive) {
             inspector.deactivate();
             setIsInspectorActive(false);
+            setCrossOriginFrame(null);
         } else {
             // Clear any existing selection highlights when starting new inspection
             inspector.getHighlighter().clearSelection();
 
             inspector.activate((analysis) => {
-                setLastSelector(analysis.selector);
-                setBreadcrumbs(analysis.breadcrumbs);
-                setIsInsideShadow(analysis.isInsideShadow);
-                setSelectorPath(analysis.path);
-                setSelectedNodeIndex(0);
+                loadAnalysis(analysis);
                 inspector.deactivate();
                 setIsInspectorActive(false);
+                setCrossOriginFrame(null);
+            }, {
+                onCrossOriginFrame: setCrossOriginFrame,
+                onFocusChange: (element) => {
+                    const index = selectorPathRef.current.findIndex(node => node.element === element);
+                    if (index >= 0) setSelectedNodeIndex(index);
+                },
+                onDeactivate: () => {
+                    setIsInspectorActive(false);
+                    setCrossOriginFrame(null);
+                }
             });
             setIsInspectorActive(true);
         }
     };
 
+    useEffect(() => channel.subscribe(async (message) => {
+        if (message.type !== 'CONTEXT_MENU_ACTION') return;
+        const engine = inspector.getEngine();
+
+        if (message.action === 'tag-element') {
+            const analysis = inspector.analyzeContextTarget(message);
+            if (!analysis) return;
+            inspector.deactivate();
+            setIsInspectorActive(false);
+            setCrossOriginFrame(null);
+            inspector.getHighlighter().clearSelection();
+            loadAnalysis(analysis);
+            setPageScope(null);
+            setActiveTab('feature');
+        } else {
+            const element = inspector.getContextTarget(message);
+            if (!element) return;
+            const selector = engine.generateCandidates(element)[0]?.selector ?? engine.getSelector(element);
+            try {
+                await copyText(selector, element.ownerDocument);
+                // Brief confirmation on the element itself, since the overlay stays closed
+                inspector.getHighlighter().highlight(element);
+                setTimeout(() => inspector.getHighlighter().hide(), 800);
+            } catch (e) {
+                console.warn('Shadow Tagger: could not copy selector', selector, e);
+            }
+        }
+    }), [inspector, channel]);
+
+    const switchSlotMode = (mode: SlotMode) => {
+        if (!slotPaths || mode === slotMode) return;
+        // Each mode keeps its own path object, so edits made in one survive switching back
+        setSlotMode(mode);
+        setSelectorPath(slotPaths[mode]);
+        setSelectedNodeIndex(0);
+        setLastSelector(inspector.getEngine().generateSelectorFromPath(slotPaths[mode]));
+    };
+
+    const slotName = slotPaths?.light.find(node => node.assignedSlotName !== undefined)?.assignedSlotName;
+
+    const targetElement = selectorPath[0]?.element ?? null;
+    const candidates: SelectorCandidate[] = useMemo(
+        () => targetElement ? inspector.getEngine().generateCandidates(targetElement) : [],
+        [targetElement, inspector, options]
+    );
+
+    const applyCandidate = (candidate: SelectorCandidate) => {
+        const newPath = inspector.getEngine().clonePath(candidate.path);
+        setSelectorPath(newPath);
+        setSelectedNodeIndex(0);
+        setLastSelector(candidate.selector);
+        setSlotPaths(prev => prev ? { ...prev, [slotMode]: newPath } : prev);
+    };
+
+    const countSlotModeMatches = (mode: SlotMode): number => {
+        if (!slotPaths) return 0;
+        const engine = inspector.getEngine();
+        return engine.queryPendoSelector(engine.generateSelectorFromPath(slotPaths[mode]), queryRoot).length;
+    };
+
     const toggleNodeIncluded = (index: number) => {
         const newPath = [...selectorPath];
         newPath[index].included = !newPath[index].included;
@@ -163,6 +321,7 @@ export const OverlayContainer: React.FC<OverlayProps> = ({ inspector }) => {
     const toggleIdentifier = (nodeIndex: number, idIndex: number) => {
         const newPath = [...selectorPath];
         const ident = newPath[nodeIndex].identifiers[idIndex];
+        if (ident.blocked) return;
         ident.enabled = !ident.enabled;
 
         // If enabling any identifier, ensure node is included
@@ -174,6 +333,43 @@ export const OverlayContainer: React.FC<OverlayProps> = ({ inspector }) => {
         setLastSelector(inspector.getEngine().generateSelectorFromPath(newPath));
     };
 
+    const saveFeatureTag = async (name: string, description: string) => {
+        const path = inspector.getEngine().serializePath(selectorPath);
+        const tag = editingFeatureTag
+            ? { ...editingFeatureTag, name, description, rule: lastSelector, path, matchCount, pageScope: pageScope ?? undefined }
+            : tagStore.createFeatureTag(name, description, lastSelector, path, matchCount, pageScope ?? undefined);
+        setEditingFeatureTag(await tagStore.save(tag));
+    };
+
+    const openTag = (tag: SavedTag) => {
+        if (tag.kind === 'feature') {
+            // Tags imported from CSV have no builder state; show the rule on its own
+            const path = tag.path ? inspector.getEngine().restorePath(tag.path) : [];
+            setSelectorPath(path);
+            setSelectedNodeIndex(0);
+            setLastSelector(path.length ? inspector.getEngine().generateSelectorFromPath(path) : tag.rule);
+            setFrameContext(path[0]?.element ? inspector.getFrameContext(path[0].element) : undefined);
+            setSlotPaths(null);
+            setEditingFeatureTag(tag);
+            setPageScope(tag.pageScope ?? null);
+            setActiveTab('feature');
+        } else {
+            setRestoredPageTag(tag);
+            setActiveTab('page');
+        }
+    };
+
+    const tabButtonStyle = (tab: typeof activeTab): React.CSSProperties => ({
+        flex: 1,
+        padding: '12px',
+        background: activeTab === tab ? 'white' : '#f8f9fa',
+        border: 'none',
+        borderBottom: activeTab === tab ? '2px solid #0066ff' : 'none',
+        color: activeTab === tab ? '#0066ff' : '#666',
+        fontWeight: '600',
+        cursor: 'pointer'
+    });
+
     return (
         <div
             style={{
@@ -210,36 +406,15 @@ export const OverlayContainer: React.FC<OverlayProps> = ({ inspector }) => {
             </div>
 
             <div style={{ display: 'flex', borderBottom: '1px solid #eee' }}>
-                <button
-                    onClick={() => setActiveTab('feature')}
-                    style={{
-                        flex: 1,
-                        padding: '12px',
-                        background: activeTab === 'feature' ? 'white' : '#f8f9fa',
-                        border: 'none',
-                        borderBottom: activeTab === 'feature' ? '2px solid #0066ff' : 'none',
-                        color: activeTab === 'feature' ? '#0066ff' : '#666',
-                        fontWeight: '600',
-                        cursor: 'pointer'
-                    }}
-                >
+                <button onClick={() => setActiveTab('feature')} style={tabButtonStyle('feature')}>
                     Features
                 </button>
-                <button
-                    onClick={() => setActiveTab('page')}
-                    style={{
-                        flex: 1,
-                        padding: '12px',
-                        background: activeTab === 'page' ? 'white' : '#f8f9fa',
-                        border: 'none',
-                        borderBottom: activeTab === 'page' ? '2px solid #0066ff' : 'none',
-                        color: activeTab === 'page' ? '#0066ff' : '#666',
-                        fontWeight: '600',
-                        cursor: 'pointer'
-                    }}
-                >
+                <button onClick={() => setActiveTab('page')} style={tabButtonStyle('page')}>
                     Pages
                 </button>
+                <button onClick={() => setActiveTab('library')} style={tabButtonStyle('library')}>
+                    Library
+                </button>
             </div>
 
             <div style={{ padding: '16px', maxHeight: '600px', overflowY: 'auto' }}>
@@ -263,6 +438,29 @@ export const OverlayContainer: React.FC<OverlayProps> = ({ inspector }) => {
                             {isInspectorActive ? 'Cancel Inspect' : 'Inspect Element'}
                         </button>
 
+                        {isInspectorActive && (
+                            <div style={{ fontSize: '10px', color: '#999', marginTop: '-10px', marginBottom: '16px', textAlign: 'center' }}>
+                                ↑↓ parent / child · ←→ siblings · Enter to lock · Esc to cancel
+                            </div>
+                        )}
+
+                        {isInspectorActive && crossOriginFrame && (
+                            <div style={{
+                                fontSize: '11px',
+                                color: '#cc0000',
+                                background: '#fff0f0',
+                                border: '1px solid #ffdada',
+                                borderRadius: '6px',
+                                padding: '8px 10px',
+                                marginBottom: '16px',
+                                lineHeight: 1.4,
+                                wordBreak: 'break-all'
+                            }}>
+                                🚫 <strong>Cross-origin iframe</strong> ({crossOriginFrame.src}). The browser's same-origin
+                                policy blocks access to its content, so elements inside it cannot be inspected from this page.
+                            </div>
+                        )}
+
                         {!selectorPath.length && (
                             <div style={{ marginBottom: '16px' }}>
                                 <label style={{ fontSize: '12px', fontWeight: '600', color: '#444', marginBottom: '8px', display: 'block' }}>
@@ -339,11 +537,111 @@ export const OverlayContainer: React.FC<OverlayProps> = ({ inspector }) => {
                                     />
                                     Prioritize unique IDs
                                 </label>
+
+                                <label style={{ fontSize: '11px', color: '#666', display: 'flex', gap: '8px', marginTop: '8px', alignItems: 'center' }}>
+                                    Selector preview after hovering for
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        step={100}
+                                        value={previewDelay}
+                                        onChange={(e) => updatePreviewDelay(e.target.value)}
+                                        style={{
+                                            width: '64px',
+                                            padding: '2px 6px',
+                                            fontSize: '11px',
+                                            border: '1px solid #ddd',
+                                            borderRadius: '4px'
+                                        }}
+                                    />
+                                    ms (0 = off)
+                                </label>
+
+                                <label style={{ fontSize: '12px', fontWeight: '600', color: '#444', margin: '16px 0 8px', display: 'block' }}>
+                                    PII Detection
+                                </label>
+                                <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+                                    {(Object.keys(PII_DETECTOR_LABELS) as PIIDetectorType[]).map(type => (
+                                        <label key={type} style={{ fontSize: '11px', color: '#666', display: 'flex', gap: '8px', alignItems: 'center' }}>
+                                            <input
+                                                type="checkbox"
+                                                checked={piiSettings[type]}
+                                                onChange={() => togglePiiDetector(type)}
+                                            />
+                                            {PII_DETECTOR_LABELS[type]}
+                                        </label>
+                                    ))}
+                                </div>
                             </div>
                         )}
 
                         {selectorPath.length > 0 && (
                             <div style={{ marginTop: '0' }}>
+                                {frameContext && (
+                                    <div style={{
+                                        fontSize: '11px',
+                                        color: '#0066ff',
+                                        background: '#f0f4ff',
+                                        border: '1px solid #cce0ff',
+                                        borderRadius: '6px',
+                                        padding: '8px 10px',
+                                        marginBottom: '12px',
+                                        lineHeight: 1.4,
+                                        wordBreak: 'break-all'
+                                    }}>
+                                        🖼 <strong>Inside iframe</strong> <code>{frameContext.selector}</code>. The selector is
+                                        relative to the iframe's document ({frameContext.src}), not the top window.
+                                    </div>
+                                )}
+                                {slotPaths && (
+                                    <div data-no-drag style={{
+                                        fontSize: '11px',
+                                        background: '#f8f9fa',
+                                        border: '1px solid #eee',
+                                        borderRadius: '6px',
+                                        padding: '8px 10px',
+                                        marginBottom: '12px'
+                                    }}>
+                                        <div style={{ color: '#666', marginBottom: '6px' }}>
+                                            Slotted content, rendered in <code>&lt;slot{slotName ? ` name="${slotName}"` : ''}&gt;</code>
+                                        </div>
+                                        <div style={{ display: 'flex', gap: '6px' }}>
+                                            {(['light', 'slot'] as SlotMode[]).map(mode => (
+                                                <button
+                                                    key={mode}
+                                                    onClick={() => switchSlotMode(mode)}
+                                                    style={{
+                                                        flex: 1,
+                                                        padding: '4px 6px',
+                                                        fontSize: '11px',
+                                                        borderRadius: '4px',
+                                                        cursor: 'pointer',
+                                                        border: `1px solid ${slotMode === mode ? '#0066ff' : '#ddd'}`,
+                                                        background: slotMode === mode ? '#0066ff' : 'white',
+                                                        color: slotMode === mode ? 'white' : '#666'
+                                                    }}
+                                                >
+                                                    {mode === 'light' ? 'Light DOM selector' : 'Slot container'} ({countSlotModeMatches(mode)})
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
+                                {selectorPath[0].hasClosedShadowRoot && (
+                                    <div style={{
+                                        fontSize: '11px',
+                                        color: '#854d0e',
+                                        background: '#fff8e6',
+                                        border: '1px solid #ffe8cc',
+                                        borderRadius: '6px',
+                                        padding: '8px 10px',
+                                        marginBottom: '12px',
+                                        lineHeight: 1.4
+                                    }}>
+                                        ⚠️ <strong>Closed shadow root</strong> on &lt;{selectorPath[0].tagName}&gt;. Its internals are
+                                        hidden from page scripts, so Pendo cannot reach inside. The selector targets the host only.
+                                    </div>
+                                )}
                                 <div style={{ marginBottom: '12px' }}>
                                     <label style={{ fontSize: '11px', color: '#666', marginBottom: '6px', display: 'block' }}>
                                         Selector Path (Double-click to toggle ancestor)
@@ -369,7 +667,10 @@ export const OverlayContainer: React.FC<OverlayProps> = ({ inspector }) => {
                                             return (
                                                 <React.Fragment key={originalIndex}>
                                                     <div
-                                                        onClick={() => setSelectedNodeIndex(originalIndex)}
+                                                        onClick={() => {
+                                                            setSelectedNodeIndex(originalIndex);
+                                                            if (isInspectorActive && node.element) inspector.focusElement(node.element);
+                                                        }}
                                                         onDoubleClick={(e) => {
                                                             e.stopPropagation();
                                                             toggleNodeIncluded(originalIndex);
@@ -389,6 +690,15 @@ export const OverlayContainer: React.FC<OverlayProps> = ({ inspector }) => {
                                                     >
                                                         {node.tagName}
                                                         {node.isShadowBoundary && <span style={{ color: originalIndex === selectedNodeIndex ? 'rgba(255,255,255,0.7)' : '#0066ff', fontSize: '9px' }}>::shadow</span>}
+                                                        {node.hasClosedShadowRoot && <span title="Closed shadow root" style={{ fontSize: '9px' }}>🔒</span>}
+                                                        {node.assignedSlotName !== undefined && (
+                                                            <span
+                                                                title={`Rendered in <slot${node.assignedSlotName ? ` name="${node.assignedSlotName}"` : ''}>`}
+                                                                style={{ color: originalIndex === selectedNodeIndex ? 'rgba(255,255,255,0.7)' : '#854d0e', fontSize: '9px' }}
+                                                            >
+                                                                ⤷slot{node.assignedSlotName && `[${node.assignedSlotName}]`}
+                                                            </span>
+                                                        )}
                                                     </div>
                                                     {i < selectorPath.length - 1 && <span style={{ color: '#ccc' }}>&gt;</span>}
                                                 </React.Fragment>
@@ -426,14 +736,15 @@ export const OverlayContainer: React.FC<OverlayProps> = ({ inspector }) => {
                                                 key={idx}
                                                 onClick={() => toggleIdentifier(selectedNodeIndex, idx)}
                                                 style={{
-                                                    cursor: 'pointer',
+                                                    cursor: ident.blocked ? 'not-allowed' : 'pointer',
                                                     padding: '4px 8px',
                                                     borderRadius: '6px',
                                                     fontSize: '11px',
-                                                    background: ident.enabled ? '#0066ff' : '#f0f0f0',
-                                                    color: ident.enabled ? 'white' : '#666',
+                                                    background: ident.blocked ? '#fff0f0' : ident.enabled ? '#0066ff' : '#f0f0f0',
+                                                    color: ident.blocked ? '#cc0000' : ident.enabled ? 'white' : '#666',
+                                                    textDecoration: ident.blocked ? 'line-through' : 'none',
                                                     border: '1px solid',
-                                                    borderColor: ident.enabled ? '#0066ff' : '#ddd',
+                                                    borderColor: ident.blocked ? '#ffdada' : ident.enabled ? '#0066ff' : '#ddd',
                                                     display: 'flex',
                                                     alignItems: 'center',
                                                     gap: '4px',
@@ -456,6 +767,61 @@ export const OverlayContainer: React.FC<OverlayProps> = ({ inspector }) => {
                                         </div>
                                     )}
                                 </div>
+
+                                {candidates.length > 0 && (
+                                    <div style={{ marginBottom: '16px' }}>
+                                        <label style={{ fontSize: '11px', color: '#666', marginBottom: '6px', display: 'block' }}>
+                                            Suggested Selectors (click to apply)
+                                        </label>
+                                        <div data-no-drag style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+                                            {candidates.map(candidate => (
+                                                <div
+                                                    key={candidate.selector}
+                                                    onClick={() => applyCandidate(candidate)}
+                                                    title={candidate.notes.join('\n')}
+                                                    style={{
+                                                        display: 'flex',
+                                                        alignItems: 'center',
+                                                        gap: '8px',
+                                                        padding: '6px 8px',
+                                                        borderRadius: '6px',
+                                                        cursor: 'pointer',
+                                                        border: `1px solid ${candidate.selector === lastSelector ? '#0066ff' : '#eee'}`,
+                                                        background: candidate.selector === lastSelector ? '#f0f4ff' : '#fff'
+                                                    }}
+                                                >
+                                                    <span style={{
+                                                        minWidth: '28px',
+                                                        textAlign: 'center',
+                                                        fontSize: '10px',
+                                                        fontWeight: 'bold',
+                                                        padding: '2px 4px',
+                                                        borderRadius: '4px',
+                                                        color: 'white',
+                                                        background: candidate.score >= 70 ? '#00aa55' : candidate.score >= 40 ? '#e6a100' : '#ff3366'
+                                                    }}>
+                                                        {candidate.score}
+                                                    </span>
+                                                    <div style={{ flex: 1, minWidth: 0 }}>
+                                                        <div style={{
+                                                            fontFamily: 'monospace',
+                                                            fontSize: '11px',
+                                                            color: '#333',
+                                                            overflow: 'hidden',
+                                                            textOverflow: 'ellipsis',
+                                                            whiteSpace: 'nowrap'
+                                                        }}>
+                                                            {candidate.selector}
+                                                        </div>
+                                                        <div style={{ fontSize: '10px', color: '#999' }}>
+                                                            {STRATEGY_LABELS[candidate.strategy]} · {candidate.matchCount} match{candidate.matchCount === 1 ? '' : 'es'}
+                                                        </div>
+                                                    </div>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
                             </div>
                         )}
 
@@ -480,9 +846,23 @@ export const OverlayContainer: React.FC<OverlayProps> = ({ inspector }) => {
                                     {lastSelector}
                                 </div>
 
-                                <div style={{ fontSize: '11px', color: '#666', marginTop: '6px', textAlign: 'right' }}>
-                                    Matching elements: {matchCount}
-                                </div>
+                                {matchCount > 1 ? (
+                                    <div style={{
+                                        fontSize: '11px',
+                                        color: '#854d0e',
+                                        background: '#fff8e6',
+                                        border: '1px solid #ffe8cc',
+                                        borderRadius: '6px',
+                                        padding: '6px 10px',
+                                        marginTop: '6px'
+                                    }}>
+                                        ⚠️ Selector is not unique: matches {matchCount} elements (outlined in orange)
+                                    </div>
+                                ) : (
+                                    <div style={{ fontSize: '11px', color: matchCount === 0 ? '#ff3366' : '#666', marginTop: '6px', textAlign: 'right' }}>
+                                        Matching elements: {matchCount}
+                                    </div>
+                                )}
 
                                 <button
                                     onClick={() => navigator.clipboard.writeText(lastSelector)}
@@ -500,10 +880,37 @@ export const OverlayContainer: React.FC<OverlayProps> = ({ inspector }) => {
                                 >
                                     Copy to Clipboard
                                 </button>
+                                <SelectorWatchPanel
+                                    engine={inspector.getEngine()}
+                                    selector={lastSelector}
+                                    root={queryRoot}
+                                    onMatches={(matches) => {
+                                        setMatchCount(matches.length);
+                                        inspector.getHighlighter().highlightSelection(matches, matches.length > 1 ? 'warning' : 'default');
+                                    }}
+                                />
+                                <PageScopePanel
+                                    scope={pageScope}
+                                    currentRule={currentPageRule}
+                                    history={urlHistory}
+                                    onChange={setPageScope}
+                                />
+                                {selectorPath.length > 0 && (
+                                    <SaveTagForm
+                                        initialName={editingFeatureTag?.name}
+                                        initialDescription={editingFeatureTag?.description}
+                                        isUpdate={!!editingFeatureTag}
+                                        onSave={saveFeatureTag}
+                                    />
+                                )}
                                 <button
                                     onClick={() => {
                                         setSelectorPath([]);
                                         setLastSelector('');
+                                        setEditingFeatureTag(null);
+                                        setPageScope(null);
+                                        setFrameContext(undefined);
+                                        setSlotPaths(null);
                                         inspector.getHighlighter().clearSelection();
                                     }}
                                     style={{
@@ -523,8 +930,10 @@ export const OverlayContainer: React.FC<OverlayProps> = ({ inspector }) => {
                             </div>
                         )}
                     </>
+                ) : activeTab === 'page' ? (
+                    <PageTagging restoredTag={restoredPageTag} urlHistory={urlHistory} onRuleChange={setCurrentPageRule} />
                 ) : (
-                    <PageTagging />
+                    <TagLibrary onOpenTag={openTag} channel={channel} />
                 )}
             </div>
         </div>
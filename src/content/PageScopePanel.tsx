@@ -0,0 +1,101 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { PageScope } from '../services/tag-store';
+import { URLRuleMatcher, RuleSyntaxError } from '../services/url-rule-matcher';
+import { UrlHistory } from './url-history';
+
+interface PageScopePanelProps {
+    scope: PageScope | null;
+    currentRule: PageScope | null;  // Rule currently built in the Page Tagging tab
+    history: UrlHistory;
+    onChange: (scope: PageScope | null) => void;
+}
+
+export const PageScopePanel: React.FC<PageScopePanelProps> = ({ scope, currentRule, history, onChange }) => {
+    const matcher = useMemo(() => new URLRuleMatcher(), []);
+    const [urls, setUrls] = useState<string[]>(() => history.getUniqueUrls());
+    const [showUrls, setShowUrls] = useState(false);
+
+    useEffect(() => history.subscribe(() => setUrls(history.getUniqueUrls())), [history]);
+
+    const coverage = useMemo(() => {
+        if (!scope) return null;
+        try {
+            const parsed = matcher.parse(scope.rule);
+            return urls.map(url => ({ url, matched: matcher.test(parsed, url).matched }));
+        } catch (e) {
+            if (e instanceof RuleSyntaxError) return null;
+            throw e;
+        }
+    }, [matcher, scope, urls]);
+
+    const coveredCount = coverage?.filter(c => c.matched).length ?? 0;
+    const canAttach = !!currentRule && currentRule.rule !== scope?.rule;
+
+    const buttonStyle: React.CSSProperties = {
+        background: 'none',
+        border: 'none',
+        color: '#0066ff',
+        cursor: 'pointer',
+        fontSize: '11px',
+        padding: 0,
+        textDecoration: 'underline'
+    };
+
+    return (
+        <div style={{ marginTop: '8px', border: '1px solid #eee', borderRadius: '6px', padding: '8px 10px', fontSize: '11px' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                <span style={{ fontWeight: 'bold', color: '#666' }}>PAGE SCOPE</span>
+                <div style={{ display: 'flex', gap: '10px' }}>
+                    {canAttach && (
+                        <button
+                            onClick={() => onChange(structuredClone(currentRule))}
+                            title={currentRule!.rule}
+                            style={buttonStyle}
+                        >
+                            {scope ? 'Replace with current page rule' : 'Attach current page rule'}
+                        </button>
+                    )}
+                    {scope && (
+                        <button onClick={() => onChange(null)} style={{ ...buttonStyle, color: '#ff3366' }}>Detach</button>
+                    )}
+                </div>
+            </div>
+
+            {!scope && (
+                <div style={{ color: '#999', marginTop: '4px' }}>
+                    {currentRule
+                        ? 'Not scoped: the feature applies on every page.'
+                        : 'Build a rule in the Page Tagging tab to scope this feature to a page.'}
+                </div>
+            )}
+
+            {scope && (
+                <>
+                    <div style={{ fontFamily: 'monospace', color: '#854d0e', wordBreak: 'break-all', marginTop: '4px' }}>
+                        {scope.rule}
+                    </div>
+                    {coverage && (
+                        <div style={{ marginTop: '4px', color: '#666' }}>
+                            Covers {coveredCount} of {coverage.length} page(s) visited this session
+                            {coverage.length > 0 && (
+                                <button onClick={() => setShowUrls(!showUrls)} style={{ ...buttonStyle, marginLeft: '6px' }}>
+                                    {showUrls ? 'Hide' : 'Show'}
+                                </button>
+                            )}
+                        </div>
+                    )}
+                    {showUrls && coverage && (
+                        <div data-no-drag style={{ maxHeight: '100px', overflowY: 'auto', marginTop: '4px' }}>
+                            {coverage.map(({ url, matched }) => (
+                                <div key={url} title={url} style={{ display: 'flex', gap: '6px', whiteSpace: 'nowrap' }}>
+                                    <span style={{ color: matched ? '#00884a' : '#cc0000', fontWeight: 'bold' }}>{matched ? '✓' : '✗'}</span>
+                                    <span style={{ fontFamily: 'monospace', overflow: 'hidden', textOverflow: 'ellipsis' }}>{url}</span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
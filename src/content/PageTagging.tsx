@@ -1,14 +1,86 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { URLProcessor, URLRuleState, URLSegment, URLQueryParam, URLHashComponent } from '../services/url-processor';
+import { TagStore, PageTag, PageScope } from '../services/tag-store';
+import { SaveTagForm } from './SaveTagForm';
+import { PIIDetectorSettings } from '../services/pii-sanitizer';
+import { UrlHistory } from './url-history';
+import { UrlHistoryPanel } from './UrlHistoryPanel';
+import { RuleTestPanel } from './RuleTestPanel';
+import { RuleSyntaxError } from '../services/url-rule-matcher';
+import { DetectorSettings } from '../services/segment-detectors';
+import { DetectorSettingsPanel } from './DetectorSettingsPanel';
+import { QueryParamPresets } from '../services/query-param-classifier';
+import { QueryParamPresetsPanel } from './QueryParamPresetsPanel';
 
-export const PageTagging: React.FC = () => {
+interface PageTaggingProps {
+    restoredTag?: PageTag | null;
+    urlHistory: UrlHistory;
+    // Reports the rule being built so the Features tab can scope a feature to it
+    onRuleChange?: (rule: PageScope) => void;
+}
+
+export const PageTagging: React.FC<PageTaggingProps> = ({ restoredTag, urlHistory, onRuleChange }) => {
     const processor = useMemo(() => new URLProcessor(), []);
+    const tagStore = useMemo(() => new TagStore(), []);
     const [state, setState] = useState<URLRuleState | null>(null);
+    const [editingTag, setEditingTag] = useState<PageTag | null>(null);
+    const [pastedRule, setPastedRule] = useState('');
+    const [ruleError, setRuleError] = useState<RuleSyntaxError | null>(null);
+    // The detector registry and param classifier are mutable; bump this to re-render after changing them
+    const [, setSettingsRevision] = useState(0);
+    const [sourceUrl, setSourceUrl] = useState(window.location.href);
+    const [isPinned, setIsPinned] = useState(false);
+    // The state before the last client-side navigation, so the user can go back to it
+    const [urlChange, setUrlChange] = useState<{ url: string; state: URLRuleState } | null>(null);
+
+    // The navigation listener outlives renders, so it reads the latest values through a ref
+    const latestRef = useRef({ state, sourceUrl, isPinned });
+    latestRef.current = { state, sourceUrl, isPinned };
 
     useEffect(() => {
+        // PII settings are managed from the Features tab; apply them (and custom segment detectors) before analyzing
+        chrome.storage.local.get(['piiDetectors', 'segmentDetectors', 'queryParamPresets'], (result) => {
+            if (result.piiDetectors) processor.getSanitizer().setSettings(result.piiDetectors as PIIDetectorSettings);
+            if (result.segmentDetectors) processor.getDetectors().setSettings(result.segmentDetectors as DetectorSettings);
+            if (result.queryParamPresets) processor.getClassifier().setPresets(result.queryParamPresets as QueryParamPresets);
+            setSettingsRevision(r => r + 1);
+            if ((!result.piiDetectors && !result.segmentDetectors && !result.queryParamPresets) || restoredTag) return;
+            setState(processor.analyzeUrl(window.location.href));
+            setSourceUrl(window.location.href);
+        });
+    }, [processor, restoredTag]);
+
+    useEffect(() => {
+        if (restoredTag) {
+            setState(restoredTag.ruleState
+                ? structuredClone(restoredTag.ruleState)
+                : processor.analyzeUrl(restoredTag.sourceUrl || window.location.href));
+            setEditingTag(restoredTag);
+            setSourceUrl(restoredTag.sourceUrl || window.location.href);
+            // A saved tag should not be rewritten just because the app navigated
+            setIsPinned(true);
+            setUrlChange(null);
+            return;
+        }
         const initialState = processor.analyzeUrl(window.location.href);
         setState(initialState);
-    }, [processor]);
+        setSourceUrl(window.location.href);
+    }, [processor, restoredTag]);
+
+    // Follow SPA navigation: re-analyze the new URL, keeping the user's overrides where they still apply
+    useEffect(() => urlHistory.subscribe(() => {
+        const { state: current, sourceUrl: previousUrl, isPinned: pinned } = latestRef.current;
+        const url = window.location.href;
+        if (pinned || !current || url === previousUrl) return;
+
+        setUrlChange({ url: previousUrl, state: current });
+        setState(processor.carryOverrides(current, previousUrl, url));
+        setSourceUrl(url);
+    }), [urlHistory, processor]);
+
+    useEffect(() => {
+        if (state) onRuleChange?.({ rule: processor.generateRule(state), ruleState: state });
+    }, [processor, state, onRuleChange]);
 
     if (!state) return null;
 
@@ -22,11 +94,19 @@ export const PageTagging: React.FC = () => {
 
         if (seg.type === 'literal') seg.type = 'wildcard';
         else if (seg.type === 'wildcard') seg.type = 'ignore-after';
-        else seg.type = 'literal';
+        else seg.type = seg.piiWarning ? 'wildcard' : 'literal';  // PII segments cannot go back to literal
 
         updateState({ pathSegments: newSegments });
     };
 
+    const toggleHostLabel = (index: number) => {
+        if (!state.hostLabels) return;
+        const newLabels = state.hostLabels.map((label, i) => i === index
+            ? { ...label, type: label.type === 'wildcard' ? 'literal' as const : 'wildcard' as const }
+            : label);
+        updateState({ hostLabels: newLabels });
+    };
+
     const updateQueryParam = (index: number, type: URLQueryParam['type']) => {
         const newParams = [...state.queryParams];
         newParams[index].type = type;
@@ -41,8 +121,179 @@ export const PageTagging: React.FC = () => {
 
     const generatedUrl = processor.generateRule(state);
 
+    const saveDetectorSettings = (settings: DetectorSettings) => {
+        chrome.storage.local.set({ segmentDetectors: settings });
+        reanalyzeWithNewDefaults();
+    };
+
+    const saveQueryParamPresets = (presets: QueryParamPresets) => {
+        chrome.storage.local.set({ queryParamPresets: presets });
+        reanalyzeWithNewDefaults();
+    };
+
+    const reanalyzeWithNewDefaults = () => {
+        setSettingsRevision(r => r + 1);
+        // A tag being edited keeps its chips; only a fresh analysis picks up the new defaults
+        if (!editingTag) setState(processor.analyzeUrl(sourceUrl));
+    };
+
+    // Rules pasted or inferred from several URLs are not tied to the current one, so stop following navigation
+    const applyRuleState = (next: URLRuleState) => {
+        setState(next);
+        setIsPinned(true);
+        setUrlChange(null);
+    };
+
+    const pinPreviousUrl = () => {
+        if (!urlChange) return;
+        setState(urlChange.state);
+        setSourceUrl(urlChange.url);
+        setIsPinned(true);
+        setUrlChange(null);
+    };
+
+    const followCurrentUrl = () => {
+        setIsPinned(false);
+        setUrlChange(null);
+        const url = window.location.href;
+        if (url !== sourceUrl) {
+            setState(processor.carryOverrides(state, sourceUrl, url));
+            setSourceUrl(url);
+        }
+    };
+
+    const displayUrl = (url: string) => {
+        try {
+            const parsed = new URL(url);
+            return parsed.pathname + parsed.search + parsed.hash;
+        } catch {
+            return url;
+        }
+    };
+
+    const loadPastedRule = () => {
+        try {
+            applyRuleState(processor.parseRule(pastedRule));
+            setRuleError(null);
+            setPastedRule('');
+        } catch (e) {
+            if (!(e instanceof RuleSyntaxError)) throw e;
+            setRuleError(e);
+        }
+    };
+
+    const piiChipStyle: React.CSSProperties = {
+        display: 'inline-block',
+        marginLeft: '6px',
+        padding: '0 6px',
+        fontSize: '10px',
+        fontWeight: 'normal',
+        color: '#cc0000',
+        background: '#fff0f0',
+        border: '1px solid #ffdada',
+        borderRadius: '8px'
+    };
+
+    const saveTag = async (name: string, description: string) => {
+        const tag = editingTag
+            ? { ...editingTag, name, description, rule: generatedUrl, ruleState: state }
+            : tagStore.createPageTag(name, description, generatedUrl, state);
+        setEditingTag(await tagStore.save(tag));
+    };
+
     return (
         <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+            {/* Source URL Section */}
+            <div style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '6px',
+                fontSize: '11px',
+                padding: '6px 8px',
+                borderRadius: '6px',
+                background: urlChange ? '#fff8e6' : '#f8f9fa',
+                border: `1px solid ${urlChange ? '#ffe8cc' : '#eee'}`
+            }}>
+                <span style={{ flex: 1, minWidth: 0 }}>
+                    {urlChange && <span style={{ color: '#854d0e', fontWeight: 'bold' }}>URL changed · </span>}
+                    {isPinned && <span title="Not following navigation">📌 </span>}
+                    <span style={{ fontFamily: 'monospace', color: '#333', wordBreak: 'break-all' }} title={sourceUrl}>
+                        {displayUrl(sourceUrl)}
+                    </span>
+                    {urlChange && (
+                        <span style={{ display: 'block', color: '#999' }}>
+                            was <span style={{ fontFamily: 'monospace' }}>{displayUrl(urlChange.url)}</span>
+                        </span>
+                    )}
+                </span>
+                {urlChange && (
+                    <button onClick={pinPreviousUrl} style={{ fontSize: '10px', padding: '2px 6px', borderRadius: '4px', border: '1px solid #ddd', background: 'white', cursor: 'pointer' }}>
+                        Pin previous
+                    </button>
+                )}
+                <button
+                    onClick={isPinned ? followCurrentUrl : () => {
+                        setIsPinned(true);
+                        setUrlChange(null);
+                    }}
+                    style={{ fontSize: '10px', padding: '2px 6px', borderRadius: '4px', border: '1px solid #ddd', background: 'white', cursor: 'pointer' }}
+                >
+                    {isPinned ? 'Follow' : 'Pin'}
+                </button>
+            </div>
+
+            {/* Existing Rule Section */}
+            <section>
+                <label style={{ fontSize: '11px', fontWeight: 'bold', color: '#666', marginBottom: '6px', display: 'block' }}>
+                    EDIT AN EXISTING RULE
+                </label>
+                <div style={{ display: 'flex', gap: '6px' }}>
+                    <input
+                        data-no-drag
+                        value={pastedRule}
+                        onChange={e => {
+                            setPastedRule(e.target.value);
+                            setRuleError(null);
+                        }}
+                        onKeyDown={e => e.key === 'Enter' && pastedRule && loadPastedRule()}
+                        placeholder="Paste a Pendo rule, e.g. //*/app/*/settings"
+                        style={{
+                            flex: 1,
+                            padding: '6px 8px',
+                            fontSize: '11px',
+                            fontFamily: 'monospace',
+                            border: `1px solid ${ruleError ? '#ff3366' : '#ddd'}`,
+                            borderRadius: '6px'
+                        }}
+                    />
+                    <button
+                        onClick={loadPastedRule}
+                        disabled={!pastedRule}
+                        style={{
+                            padding: '6px 10px',
+                            background: 'white',
+                            border: '1px solid #0066ff',
+                            color: '#0066ff',
+                            borderRadius: '6px',
+                            cursor: pastedRule ? 'pointer' : 'not-allowed',
+                            opacity: pastedRule ? 1 : 0.5,
+                            fontSize: '11px',
+                            fontWeight: '600'
+                        }}
+                    >
+                        Load
+                    </button>
+                </div>
+                {ruleError && (
+                    <div style={{ marginTop: '6px', fontSize: '11px', color: '#cc0000', background: '#fff0f0', padding: '6px 8px', borderRadius: '6px' }}>
+                        <div style={{ fontFamily: 'monospace', whiteSpace: 'pre', overflowX: 'auto' }}>
+                            {pastedRule.trim()}{'\n'}{' '.repeat(ruleError.position)}^
+                        </div>
+                        <div style={{ marginTop: '4px' }}>Position {ruleError.position + 1}: {ruleError.message}</div>
+                    </div>
+                )}
+            </section>
+
             {/* Domain Section */}
             <section>
                 <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '6px' }}>
@@ -77,6 +328,54 @@ export const PageTagging: React.FC = () => {
                         </label>
                     </div>
                 )}
+                {state.includeDomain && !state.domainWildcard && state.hostLabels && (
+                    <div style={{ display: 'flex', flexWrap: 'wrap', gap: '2px', alignItems: 'center', marginTop: '6px' }}>
+                        {state.hostLabels.map((label, i) => (
+                            <React.Fragment key={i}>
+                                <span
+                                    onClick={() => toggleHostLabel(i)}
+                                    title={label.type === 'wildcard' ? `Any value (was ${label.originalValue})` : 'Click to match any value'}
+                                    style={{
+                                        padding: '2px 8px',
+                                        background: label.type === 'wildcard' ? '#0066ff11' : 'white',
+                                        border: `1px solid ${label.type === 'wildcard' ? '#0066ff' : '#ddd'}`,
+                                        borderRadius: '4px',
+                                        cursor: 'pointer',
+                                        fontSize: '12px',
+                                        color: label.type === 'wildcard' ? '#0066ff' : '#333'
+                                    }}
+                                >
+                                    {label.type === 'wildcard' ? '*' : label.originalValue}
+                                </span>
+                                {i < state.hostLabels!.length - 1 && <span style={{ color: '#ccc' }}>.</span>}
+                            </React.Fragment>
+                        ))}
+                    </div>
+                )}
+                {state.includeDomain && (
+                    <div style={{ display: 'flex', gap: '12px', marginTop: '6px', fontSize: '11px', color: '#666' }}>
+                        {state.protocol && (
+                            <label style={{ display: 'flex', gap: '4px', alignItems: 'center', cursor: 'pointer' }}>
+                                <input
+                                    type="checkbox"
+                                    checked={!!state.includeProtocol}
+                                    onChange={e => updateState({ includeProtocol: e.target.checked })}
+                                />
+                                Protocol ({state.protocol.replace(/:$/, '')})
+                            </label>
+                        )}
+                        {state.port && !state.domainWildcard && (
+                            <label style={{ display: 'flex', gap: '4px', alignItems: 'center', cursor: 'pointer' }}>
+                                <input
+                                    type="checkbox"
+                                    checked={!!state.includePort}
+                                    onChange={e => updateState({ includePort: e.target.checked })}
+                                />
+                                Port ({state.port})
+                            </label>
+                        )}
+                    </div>
+                )}
             </section>
 
             {/* Path Section */}
@@ -110,10 +409,16 @@ export const PageTagging: React.FC = () => {
                                     color: seg.type === 'wildcard' ? '#0066ff' : seg.type === 'ignore-after' ? '#ff3366' : '#333',
                                     fontStyle: seg.isMatrix ? 'italic' : 'normal'
                                 }}
-                                title={seg.originalValue}
+                                title={seg.piiWarning
+                                    ? `${seg.piiWarning}: always wildcarded`
+                                    : seg.detector ? `${seg.originalValue} (detected as ${seg.detector})` : seg.originalValue}
                             >
+                                {seg.piiWarning && <span>⚠️ </span>}
                                 {seg.type === 'wildcard' ? (seg.originalValue.includes('=') ? `${seg.originalValue.split('=')[0]}=*` : '*') : seg.originalValue}
                                 {seg.type === 'ignore-after' && ' **'}
+                                {seg.type === 'wildcard' && seg.detector && !seg.piiWarning && (
+                                    <span style={{ marginLeft: '4px', fontSize: '9px', opacity: 0.7 }}>{seg.detector}</span>
+                                )}
                             </span>
                             {i < state.pathSegments.length - 1 && !state.pathSegments[i + 1].isMatrix && state.pathSegments[i].type !== 'ignore-after' && (
                                 <span style={{ color: '#ccc', margin: '0 2px' }}>/</span>
@@ -144,8 +449,18 @@ export const PageTagging: React.FC = () => {
                                 <span style={{ fontWeight: 500, color: param.type === 'exclude' ? '#cc0000' : '#333' }}>
                                     {param.key}
                                     <span style={{ color: '#999', fontWeight: 'normal', marginLeft: '4px' }}>
-                                        {param.type === 'exact' ? `=${param.value}` : ' (match any value)'}
+                                        {param.type === 'exact' && !param.piiWarning ? `=${param.value}` : ' (match any value)'}
                                     </span>
+                                    {param.piiWarning && (
+                                        <span style={piiChipStyle} title="Value is never included in the rule">
+                                            ⚠️ {param.piiWarning}
+                                        </span>
+                                    )}
+                                    {param.reason && !param.piiWarning && (
+                                        <span style={{ display: 'block', fontSize: '10px', fontWeight: 'normal', color: '#999' }}>
+                                            Default: {param.reason}
+                                        </span>
+                                    )}
                                 </span>
                                 <select
                                     value={param.type}
@@ -160,7 +475,7 @@ export const PageTagging: React.FC = () => {
                                     }}
                                 >
                                     <option value="wildcard">Any Value (omitted)</option>
-                                    <option value="exact">Exact Value</option>
+                                    <option value="exact" disabled={!!param.piiWarning}>Exact Value</option>
                                     <option value="exclude">Exclude</option>
                                 </select>
                             </div>
@@ -191,7 +506,12 @@ export const PageTagging: React.FC = () => {
                                     {comp.isBase ? '#' : ';'}{comp.key}
                                     {comp.value && (
                                         <span style={{ color: '#999', fontWeight: 'normal', fontStyle: 'italic', marginLeft: '4px' }}>
-                                            {comp.type === 'exact' ? `=${comp.value.length > 20 ? comp.value.substring(0, 20) + '...' : comp.value}` : ' (any value)'}
+                                            {comp.type === 'exact' && !comp.piiWarning ? `=${comp.value.length > 20 ? comp.value.substring(0, 20) + '...' : comp.value}` : ' (any value)'}
+                                        </span>
+                                    )}
+                                    {comp.piiWarning && (
+                                        <span style={piiChipStyle} title="Value is never included in the rule">
+                                            ⚠️ {comp.piiWarning}
                                         </span>
                                     )}
                                 </span>
@@ -207,8 +527,8 @@ export const PageTagging: React.FC = () => {
                                         cursor: 'pointer'
                                     }}
                                 >
-                                    <option value="exact">Exact</option>
-                                    <option value="wildcard">Any Value</option>
+                                    <option value="exact" disabled={!!comp.piiWarning}>Exact</option>
+                                    <option value="wildcard" disabled={!!(comp.isBase && comp.piiWarning)}>Any Value</option>
                                     <option value="exclude">Exclude</option>
                                 </select>
                             </div>
@@ -217,6 +537,22 @@ export const PageTagging: React.FC = () => {
                 </section>
             )}
 
+            <DetectorSettingsPanel
+                registry={processor.getDetectors()}
+                domain={state.domain || window.location.hostname}
+                onChange={saveDetectorSettings}
+            />
+
+            <QueryParamPresetsPanel
+                classifier={processor.getClassifier()}
+                domain={state.domain || window.location.hostname}
+                onChange={saveQueryParamPresets}
+            />
+
+            <UrlHistoryPanel history={urlHistory} processor={processor} state={state} onApply={applyRuleState} />
+
+            <RuleTestPanel rule={generatedUrl} />
+
             {/* Preview Section */}
             <section style={{
                 marginTop: '8px',
@@ -263,6 +599,12 @@ export const PageTagging: React.FC = () => {
                 >
                     Copy Rule
                 </button>
+                <SaveTagForm
+                    initialName={editingTag?.name}
+                    initialDescription={editingTag?.description}
+                    isUpdate={!!editingTag}
+                    onSave={saveTag}
+                />
             </section>
         </div>
     );
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { QueryParamClassifier, QueryParamListType, QueryParamPresets, TRACKING_PARAMS } from '../services/query-param-classifier';
+
+interface QueryParamPresetsPanelProps {
+    classifier: QueryParamClassifier;
+    domain: string;
+    onChange: (presets: QueryParamPresets) => void;
+}
+
+const LIST_LABELS: Record<QueryParamListType, string> = {
+    exclude: 'Always exclude',
+    wildcard: 'Always match any value'
+};
+
+export const QueryParamPresetsPanel: React.FC<QueryParamPresetsPanelProps> = ({ classifier, domain, onChange }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [key, setKey] = useState('');
+
+    const addKey = (type: QueryParamListType) => {
+        classifier.addToList(type, domain, key.trim());
+        setKey('');
+        onChange(classifier.getPresets());
+    };
+
+    const removeKey = (type: QueryParamListType, listKey: string) => {
+        classifier.removeFromList(type, domain, listKey);
+        onChange(classifier.getPresets());
+    };
+
+    const listCount = classifier.getList('exclude', domain).length + classifier.getList('wildcard', domain).length;
+
+    const addButtonStyle: React.CSSProperties = {
+        padding: '4px 8px',
+        background: 'white',
+        border: '1px solid #0066ff',
+        color: '#0066ff',
+        borderRadius: '4px',
+        cursor: key.trim() ? 'pointer' : 'not-allowed',
+        opacity: key.trim() ? 1 : 0.5,
+        fontSize: '11px'
+    };
+
+    return (
+        <section>
+            <div
+                onClick={() => setIsOpen(!isOpen)}
+                style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', cursor: 'pointer' }}
+            >
+                <label style={{ fontSize: '11px', fontWeight: 'bold', color: '#666', cursor: 'pointer' }}>
+                    QUERY PARAMETER PRESETS
+                </label>
+                <span style={{ fontSize: '10px', color: '#999' }}>
+                    {listCount} on {domain} {isOpen ? '▲' : '▼'}
+                </span>
+            </div>
+
+            {isOpen && (
+                <div data-no-drag style={{ marginTop: '8px', display: 'flex', flexDirection: 'column', gap: '6px', fontSize: '11px' }}>
+                    {(Object.keys(LIST_LABELS) as QueryParamListType[]).map(type => (
+                        <div key={type}>
+                            <div style={{ color: '#666', marginBottom: '3px' }}>{LIST_LABELS[type]}</div>
+                            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px' }}>
+                                {classifier.getList(type, domain).length === 0 && <span style={{ color: '#aaa' }}>None</span>}
+                                {classifier.getList(type, domain).map(listKey => (
+                                    <span key={listKey} style={{
+                                        padding: '1px 6px',
+                                        border: '1px solid #ddd',
+                                        borderRadius: '10px',
+                                        fontFamily: 'monospace',
+                                        display: 'flex',
+                                        alignItems: 'center',
+                                        gap: '4px'
+                                    }}>
+                                        {listKey}
+                                        <span
+                                            onClick={() => removeKey(type, listKey)}
+                                            title="Remove"
+                                            style={{ color: '#cc0000', cursor: 'pointer' }}
+                                        >
+                                            ✕
+                                        </span>
+                                    </span>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+
+                    <div style={{ display: 'flex', gap: '4px' }}>
+                        <input
+                            value={key}
+                            onChange={e => setKey(e.target.value)}
+                            placeholder="Parameter name (prefix* allowed)"
+                            style={{ flex: 1, minWidth: 0, padding: '4px 6px', fontSize: '11px', border: '1px solid #ddd', borderRadius: '4px' }}
+                        />
+                        <button onClick={() => addKey('exclude')} disabled={!key.trim()} style={addButtonStyle}>Exclude</button>
+                        <button onClick={() => addKey('wildcard')} disabled={!key.trim()} style={addButtonStyle}>Any value</button>
+                    </div>
+                    <div style={{ fontSize: '10px', color: '#999' }}>
+                        Tracking parameters ({TRACKING_PARAMS.join(', ')}) are excluded by default.
+                    </div>
+                </div>
+            )}
+        </section>
+    );
+};
@@ -0,0 +1,80 @@
+import React, { useState, useMemo } from 'react';
+import { URLRuleMatcher, RuleSyntaxError, RuleMatchResult } from '../services/url-rule-matcher';
+
+interface RuleTestPanelProps {
+    rule: string;
+}
+
+export const RuleTestPanel: React.FC<RuleTestPanelProps> = ({ rule }) => {
+    const matcher = useMemo(() => new URLRuleMatcher(), []);
+    const [input, setInput] = useState('');
+
+    const { results, error } = useMemo(() => {
+        const urls = input.split('\n').map(line => line.trim()).filter(Boolean);
+        try {
+            const parsed = matcher.parse(rule);
+            return { results: urls.map(url => matcher.test(parsed, url)), error: null };
+        } catch (e) {
+            if (e instanceof RuleSyntaxError) return { results: [] as RuleMatchResult[], error: e };
+            throw e;
+        }
+    }, [matcher, rule, input]);
+
+    const matchCount = results.filter(r => r.matched).length;
+
+    return (
+        <section>
+            <label style={{ fontSize: '11px', fontWeight: 'bold', color: '#666', marginBottom: '8px', display: 'block' }}>
+                TEST RULE AGAINST URLS
+            </label>
+            <textarea
+                data-no-drag
+                value={input}
+                onChange={e => setInput(e.target.value)}
+                placeholder="Paste one URL per line"
+                rows={3}
+                style={{
+                    width: '100%',
+                    boxSizing: 'border-box',
+                    padding: '6px 8px',
+                    fontSize: '11px',
+                    fontFamily: 'monospace',
+                    border: '1px solid #ddd',
+                    borderRadius: '6px',
+                    resize: 'vertical'
+                }}
+            />
+
+            {error && (
+                <div style={{ marginTop: '6px', fontSize: '11px', color: '#cc0000', background: '#fff0f0', padding: '6px 8px', borderRadius: '6px' }}>
+                    Invalid rule at position {error.position + 1}: {error.message}
+                </div>
+            )}
+
+            {results.length > 0 && (
+                <div data-no-drag style={{ marginTop: '6px', display: 'flex', flexDirection: 'column', gap: '4px', maxHeight: '160px', overflowY: 'auto' }}>
+                    <div style={{ fontSize: '10px', color: '#999' }}>{matchCount} of {results.length} URL(s) match</div>
+                    {results.map((result, i) => (
+                        <div key={i} style={{
+                            fontSize: '11px',
+                            padding: '4px 8px',
+                            borderRadius: '4px',
+                            background: result.matched ? '#e9f9f0' : '#fff0f0',
+                            border: `1px solid ${result.matched ? '#c6efd9' : '#ffdada'}`
+                        }}>
+                            <div style={{ display: 'flex', gap: '6px' }}>
+                                <span style={{ color: result.matched ? '#00884a' : '#cc0000', fontWeight: 'bold' }}>
+                                    {result.matched ? '✓' : '✗'}
+                                </span>
+                                <span style={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>{result.url}</span>
+                            </div>
+                            {result.reasons.map((reason, j) => (
+                                <div key={j} style={{ marginLeft: '16px', color: '#cc0000' }}>{reason}</div>
+                            ))}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </section>
+    );
+};
@@ -0,0 +1,134 @@
+import React, { useState, useEffect } from 'react';
+
+interface SaveTagFormProps {
+    initialName?: string;
+    initialDescription?: string;
+    isUpdate: boolean;
+    onSave: (name: string, description: string) => Promise<void>;
+}
+
+export const SaveTagForm: React.FC<SaveTagFormProps> = ({ initialName = '', initialDescription = '', isUpdate, onSave }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [name, setName] = useState(initialName);
+    const [description, setDescription] = useState(initialDescription);
+    const [status, setStatus] = useState('');
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        setName(initialName);
+        setDescription(initialDescription);
+    }, [initialName, initialDescription]);
+
+    const handleSave = async () => {
+        if (!name.trim()) return;
+        try {
+            await onSave(name.trim(), description.trim());
+        } catch (e) {
+            // Keep the form open so nothing typed is lost
+            setError(`Could not save: ${e instanceof Error ? e.message : String(e)}`);
+            return;
+        }
+        setError('');
+        setIsOpen(false);
+        setStatus(isUpdate ? 'Tag updated' : 'Saved to library');
+        setTimeout(() => setStatus(''), 2000);
+    };
+
+    const inputStyle: React.CSSProperties = {
+        width: '100%',
+        boxSizing: 'border-box',
+        padding: '6px 10px',
+        fontSize: '12px',
+        border: '1px solid #ddd',
+        borderRadius: '4px',
+        outline: 'none',
+        marginBottom: '6px',
+        fontFamily: 'inherit'
+    };
+
+    if (!isOpen) {
+        return (
+            <div style={{ marginTop: '8px' }}>
+                <button
+                    onClick={() => setIsOpen(true)}
+                    style={{
+                        width: '100%',
+                        padding: '8px',
+                        background: 'white',
+                        border: '1px solid #0066ff',
+                        color: '#0066ff',
+                        borderRadius: '6px',
+                        cursor: 'pointer',
+                        fontSize: '12px',
+                        fontWeight: '600'
+                    }}
+                >
+                    {isUpdate ? 'Update Saved Tag' : 'Save to Library'}
+                </button>
+                {status && (
+                    <div style={{ fontSize: '11px', color: '#00aa55', marginTop: '4px', textAlign: 'center' }}>
+                        {status}
+                    </div>
+                )}
+            </div>
+        );
+    }
+
+    return (
+        <div data-no-drag style={{ marginTop: '8px', padding: '10px', background: '#f8f9fa', borderRadius: '6px', border: '1px solid #eee' }}>
+            <input
+                type="text"
+                value={name}
+                onChange={e => setName(e.target.value)}
+                placeholder="Tag name"
+                style={inputStyle}
+                onKeyDown={e => e.key === 'Enter' && handleSave()}
+            />
+            <textarea
+                value={description}
+                onChange={e => setDescription(e.target.value)}
+                placeholder="Description (optional)"
+                rows={2}
+                style={{ ...inputStyle, resize: 'vertical' }}
+            />
+            {error && (
+                <div style={{ fontSize: '11px', color: '#cc0000', marginBottom: '6px' }}>
+                    {error}
+                </div>
+            )}
+            <div style={{ display: 'flex', gap: '8px' }}>
+                <button
+                    onClick={handleSave}
+                    disabled={!name.trim()}
+                    style={{
+                        flex: 1,
+                        padding: '6px',
+                        background: name.trim() ? '#0066ff' : '#99c2ff',
+                        color: 'white',
+                        border: 'none',
+                        borderRadius: '4px',
+                        cursor: name.trim() ? 'pointer' : 'default',
+                        fontSize: '12px',
+                        fontWeight: '600'
+                    }}
+                >
+                    {isUpdate ? 'Update' : 'Save'}
+                </button>
+                <button
+                    onClick={() => setIsOpen(false)}
+                    style={{
+                        padding: '6px 12px',
+                        background: 'white',
+                        color: '#666',
+                        border: '1px solid #ddd',
+                        borderRadius: '4px',
+                        cursor: 'pointer',
+                        fontSize: '12px'
+                    }}
+                >
+                    Cancel
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,116 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { SelectorEngine } from '../services/selector-engine';
+import { SelectorWatcher, WatchReport, StabilityVerdict } from '../services/selector-watcher';
+
+interface SelectorWatchPanelProps {
+    engine: SelectorEngine;
+    selector: string;
+    root: Document | ShadowRoot;
+    onMatches: (matches: Element[]) => void;
+}
+
+const VERDICT_STYLES: Record<StabilityVerdict, { color: string; background: string; label: string }> = {
+    stable: { color: '#00884a', background: '#e9f9f0', label: 'STABLE' },
+    flaky: { color: '#854d0e', background: '#fff8e6', label: 'FLAKY' },
+    broken: { color: '#cc0000', background: '#fff0f0', label: 'BROKEN' }
+};
+
+export const SelectorWatchPanel: React.FC<SelectorWatchPanelProps> = ({ engine, selector, root, onMatches }) => {
+    const watcher = useMemo(() => new SelectorWatcher(engine), [engine]);
+    const [isWatching, setIsWatching] = useState(false);
+    const [report, setReport] = useState<WatchReport | null>(null);
+
+    // A different selector invalidates the running watch and its history
+    useEffect(() => {
+        watcher.stop();
+        setIsWatching(false);
+        setReport(null);
+        return () => {
+            watcher.stop();
+        };
+    }, [watcher, selector, root]);
+
+    const startWatching = () => {
+        watcher.start(selector, root, (update, matches) => {
+            setReport(update);
+            onMatches(matches);
+        });
+        setIsWatching(true);
+    };
+
+    const stopWatching = () => {
+        const finalReport = watcher.stop();
+        if (finalReport) setReport(finalReport);
+        setIsWatching(false);
+    };
+
+    const verdictStyle = report ? VERDICT_STYLES[report.verdict] : null;
+
+    return (
+        <div style={{ marginTop: '8px' }}>
+            <button
+                onClick={isWatching ? stopWatching : startWatching}
+                style={{
+                    width: '100%',
+                    padding: '8px',
+                    background: isWatching ? '#fff0f0' : 'white',
+                    border: `1px solid ${isWatching ? '#ff3366' : '#ddd'}`,
+                    color: isWatching ? '#ff3366' : '#333',
+                    borderRadius: '6px',
+                    cursor: 'pointer',
+                    fontSize: '12px',
+                    fontWeight: '600'
+                }}
+            >
+                {isWatching ? '■ Stop Watching' : '◉ Watch for DOM Changes'}
+            </button>
+
+            {report && (
+                <div data-no-drag style={{
+                    marginTop: '8px',
+                    border: '1px solid #eee',
+                    borderRadius: '6px',
+                    padding: '8px 10px',
+                    fontSize: '11px'
+                }}>
+                    <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '6px' }}>
+                        <span style={{ color: '#666' }}>
+                            {isWatching ? 'Watching…' : 'Finished'} · {Math.round(report.duration / 1000)}s · {report.evaluations} update(s)
+                        </span>
+                        {!isWatching && verdictStyle && (
+                            <span style={{
+                                fontSize: '9px',
+                                fontWeight: 'bold',
+                                padding: '1px 6px',
+                                borderRadius: '8px',
+                                color: verdictStyle.color,
+                                background: verdictStyle.background
+                            }}>
+                                {verdictStyle.label}
+                            </span>
+                        )}
+                    </div>
+
+                    {report.events.length === 0 ? (
+                        <div style={{ color: '#999' }}>No changes to the matched elements yet.</div>
+                    ) : (
+                        <div style={{ maxHeight: '120px', overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: '2px' }}>
+                            {report.events.map((event, i) => (
+                                <div key={i} style={{ display: 'flex', gap: '6px' }}>
+                                    <span style={{ color: '#999', fontFamily: 'monospace', minWidth: '48px' }}>
+                                        +{(event.time / 1000).toFixed(1)}s
+                                    </span>
+                                    <span style={{ color: event.type === 'target-lost' ? '#cc0000' : '#333' }}>{event.detail}</span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {!isWatching && verdictStyle && (
+                        <div style={{ marginTop: '6px', color: verdictStyle.color }}>{report.summary}</div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
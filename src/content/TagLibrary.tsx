@@ -0,0 +1,315 @@
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { TagStore, SavedTag } from '../services/tag-store';
+import { TagExporter, ImportResult, ImportCollision } from '../services/tag-exporter';
+import { BackgroundChannel } from './background-channel';
+
+interface TagLibraryProps {
+    onOpenTag: (tag: SavedTag) => void;
+    channel: BackgroundChannel;
+}
+
+export const TagLibrary: React.FC<TagLibraryProps> = ({ onOpenTag, channel }) => {
+    const store = useMemo(() => new TagStore(), []);
+    const exporter = useMemo(() => new TagExporter(), []);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [pendingImport, setPendingImport] = useState<(ImportResult & { collisions: ImportCollision[] }) | null>(null);
+    const [importError, setImportError] = useState('');
+    const [storageError, setStorageError] = useState('');
+    const [domain, setDomain] = useState(window.location.hostname);
+    const [domains, setDomains] = useState<string[]>([]);
+    const [tags, setTags] = useState<SavedTag[]>([]);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editName, setEditName] = useState('');
+    const [editDescription, setEditDescription] = useState('');
+
+    const reload = useCallback(async () => {
+        try {
+            const [domainTags, allDomains] = await Promise.all([store.list(domain), store.listDomains()]);
+            setTags(domainTags);
+            // Always offer the current page's domain, even before anything is saved there
+            setDomains(Array.from(new Set([window.location.hostname, ...allDomains])));
+            setStorageError('');
+        } catch (e) {
+            setStorageError(`Could not load the library: ${(e as Error).message}`);
+        }
+    }, [store, domain]);
+
+    // Runs a library change and reloads; failures are shown instead of leaving the list silently stale
+    const update = async (change: () => Promise<void>): Promise<boolean> => {
+        try {
+            await change();
+        } catch (e) {
+            setStorageError(`Could not save changes: ${(e as Error).message}`);
+            return false;
+        }
+        reload();
+        return true;
+    };
+
+    useEffect(() => {
+        reload();
+    }, [reload]);
+
+    // Another tab saved, edited or imported tags for the domain being shown
+    useEffect(() => channel.subscribe(message => {
+        if (message.type === 'TAG_LIBRARY_CHANGED' && message.domain === domain) reload();
+    }), [channel, domain, reload]);
+
+    const startEditing = (tag: SavedTag) => {
+        setEditingId(tag.id);
+        setEditName(tag.name);
+        setEditDescription(tag.description);
+    };
+
+    const saveEdit = async (tag: SavedTag) => {
+        if (!editName.trim()) return;
+        const saved = await update(async () => {
+            await store.save({ ...tag, name: editName.trim(), description: editDescription.trim() });
+        });
+        if (saved) setEditingId(null);
+    };
+
+    const deleteTag = async (tag: SavedTag) => {
+        if (!window.confirm(`Delete "${tag.name}"?`)) return;
+        await update(() => store.remove(tag.domain, tag.id));
+    };
+
+    const handleImportFile = async (file: File) => {
+        setImportError('');
+        try {
+            const result = exporter.parse(await file.text(), domain);
+            setPendingImport({ ...result, collisions: exporter.findCollisions(result.tags, tags) });
+        } catch (e) {
+            setPendingImport(null);
+            setImportError((e as Error).message);
+        }
+    };
+
+    const confirmImport = async (replaceCollisions: boolean) => {
+        if (!pendingImport) return;
+        const collided = new Map(pendingImport.collisions.map(c => [c.incoming, c.existing]));
+
+        const toSave = pendingImport.tags.flatMap(tag => {
+            const existing = collided.get(tag);
+            if (!existing) return [tag];
+            // Replacing keeps the existing id so the old entry is overwritten rather than duplicated
+            return replaceCollisions ? [{ ...tag, id: existing.id, createdAt: existing.createdAt }] : [];
+        });
+
+        if (await update(() => store.saveAll(domain, toSave))) setPendingImport(null);
+    };
+
+    const linkButtonStyle: React.CSSProperties = {
+        border: 'none',
+        background: 'none',
+        padding: '0',
+        cursor: 'pointer',
+        fontSize: '11px',
+        color: '#0066ff'
+    };
+
+    const toolbarButtonStyle: React.CSSProperties = {
+        flex: 1,
+        padding: '6px',
+        background: 'white',
+        border: '1px solid #ddd',
+        borderRadius: '6px',
+        cursor: 'pointer',
+        fontSize: '11px',
+        fontWeight: '600',
+        color: '#333'
+    };
+
+    const inputStyle: React.CSSProperties = {
+        width: '100%',
+        boxSizing: 'border-box',
+        padding: '4px 8px',
+        fontSize: '12px',
+        border: '1px solid #ddd',
+        borderRadius: '4px',
+        outline: 'none',
+        marginBottom: '4px',
+        fontFamily: 'inherit'
+    };
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                <label style={{ fontSize: '11px', fontWeight: 'bold', color: '#666' }}>DOMAIN</label>
+                <select
+                    value={domain}
+                    onChange={e => setDomain(e.target.value)}
+                    style={{
+                        fontSize: '11px',
+                        padding: '2px 4px',
+                        borderRadius: '4px',
+                        border: '1px solid #ddd',
+                        outline: 'none',
+                        cursor: 'pointer',
+                        maxWidth: '220px'
+                    }}
+                >
+                    {domains.map(d => (
+                        <option key={d} value={d}>{d}</option>
+                    ))}
+                </select>
+            </div>
+
+            <div data-no-drag style={{ display: 'flex', gap: '6px' }}>
+                <button
+                    onClick={() => exporter.download(tags, 'json', `shadow-tagger-${domain}`)}
+                    disabled={tags.length === 0}
+                    style={toolbarButtonStyle}
+                >
+                    Export JSON
+                </button>
+                <button
+                    onClick={() => exporter.download(tags, 'csv', `shadow-tagger-${domain}`)}
+                    disabled={tags.length === 0}
+                    style={toolbarButtonStyle}
+                >
+                    Export CSV
+                </button>
+                <button onClick={() => fileInputRef.current?.click()} style={toolbarButtonStyle}>
+                    Import…
+                </button>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".json,.csv,application/json,text/csv"
+                    style={{ display: 'none' }}
+                    onChange={e => {
+                        const file = e.target.files?.[0];
+                        if (file) handleImportFile(file);
+                        e.target.value = '';
+                    }}
+                />
+            </div>
+
+            {storageError && (
+                <div style={{ fontSize: '11px', color: '#cc0000', background: '#fff0f0', padding: '6px 10px', borderRadius: '6px' }}>
+                    {storageError}
+                </div>
+            )}
+
+            {importError && (
+                <div style={{ fontSize: '11px', color: '#cc0000', background: '#fff0f0', padding: '6px 10px', borderRadius: '6px' }}>
+                    Import failed: {importError}
+                </div>
+            )}
+
+            {pendingImport && (
+                <div data-no-drag style={{ fontSize: '11px', background: '#f0f4ff', padding: '10px', borderRadius: '6px', border: '1px solid #cce0ff' }}>
+                    <div style={{ fontWeight: '600', color: '#333', marginBottom: '6px' }}>
+                        {pendingImport.tags.length} valid tag(s) found
+                        {pendingImport.errors.length > 0 && `, ${pendingImport.errors.length} rejected`}
+                    </div>
+                    {pendingImport.errors.map(err => (
+                        <div key={`err-${err.entry}`} style={{ color: '#cc0000' }}>
+                            Entry {err.entry}{err.name && ` (${err.name})`}: {err.message}
+                        </div>
+                    ))}
+                    {pendingImport.collisions.map(c => (
+                        <div key={`col-${c.incoming.id}`} style={{ color: '#854d0e' }}>
+                            ⚠️ "{c.incoming.name}" has the same {c.reason} as existing "{c.existing.name}"
+                        </div>
+                    ))}
+                    <div style={{ display: 'flex', gap: '12px', marginTop: '8px' }}>
+                        <button onClick={() => confirmImport(false)} style={linkButtonStyle}>
+                            Import {pendingImport.tags.length - pendingImport.collisions.length} new
+                        </button>
+                        {pendingImport.collisions.length > 0 && (
+                            <button onClick={() => confirmImport(true)} style={linkButtonStyle}>
+                                Import all, replacing {pendingImport.collisions.length}
+                            </button>
+                        )}
+                        <button onClick={() => setPendingImport(null)} style={{ ...linkButtonStyle, color: '#666' }}>Cancel</button>
+                    </div>
+                </div>
+            )}
+
+            {tags.length === 0 && (
+                <div style={{ fontSize: '12px', color: '#999', textAlign: 'center', padding: '20px 0' }}>
+                    No saved tags for this domain yet.
+                </div>
+            )}
+
+            {tags.map(tag => (
+                <div key={tag.id} data-no-drag style={{
+                    border: '1px solid #eee',
+                    borderRadius: '8px',
+                    padding: '10px',
+                    background: '#fff'
+                }}>
+                    {editingId === tag.id ? (
+                        <>
+                            <input
+                                type="text"
+                                value={editName}
+                                onChange={e => setEditName(e.target.value)}
+                                style={inputStyle}
+                            />
+                            <textarea
+                                value={editDescription}
+                                onChange={e => setEditDescription(e.target.value)}
+                                rows={2}
+                                placeholder="Description (optional)"
+                                style={{ ...inputStyle, resize: 'vertical' }}
+                            />
+                            <div style={{ display: 'flex', gap: '12px' }}>
+                                <button onClick={() => saveEdit(tag)} style={linkButtonStyle}>Save</button>
+                                <button onClick={() => setEditingId(null)} style={{ ...linkButtonStyle, color: '#666' }}>Cancel</button>
+                            </div>
+                        </>
+                    ) : (
+                        <>
+                            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '4px' }}>
+                                <span style={{ fontSize: '12px', fontWeight: '600', color: '#333' }}>{tag.name}</span>
+                                <span style={{
+                                    fontSize: '9px',
+                                    fontWeight: 'bold',
+                                    padding: '1px 6px',
+                                    borderRadius: '8px',
+                                    background: tag.kind === 'feature' ? '#e7f0ff' : '#fff4e0',
+                                    color: tag.kind === 'feature' ? '#0066ff' : '#854d0e'
+                                }}>
+                                    {tag.kind === 'feature' ? 'FEATURE' : 'PAGE'}
+                                </span>
+                            </div>
+                            {tag.description && (
+                                <div style={{ fontSize: '11px', color: '#666', marginBottom: '4px' }}>{tag.description}</div>
+                            )}
+                            <div style={{
+                                fontSize: '11px',
+                                fontFamily: 'monospace',
+                                background: '#f4f4f4',
+                                padding: '4px 6px',
+                                borderRadius: '4px',
+                                wordBreak: 'break-all',
+                                marginBottom: '6px'
+                            }}>
+                                {tag.rule}
+                            </div>
+                            {tag.kind === 'feature' && tag.pageScope && (
+                                <div style={{ fontSize: '10px', color: '#666', marginTop: '-2px', marginBottom: '6px', wordBreak: 'break-all' }}>
+                                    on page <span style={{ fontFamily: 'monospace', color: '#854d0e' }}>{tag.pageScope.rule}</span>
+                                </div>
+                            )}
+                            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                                <span style={{ fontSize: '10px', color: '#999' }} title={tag.sourceUrl}>
+                                    {new Date(tag.updatedAt).toLocaleString()}
+                                </span>
+                                <div style={{ display: 'flex', gap: '10px' }}>
+                                    <button onClick={() => onOpenTag(tag)} style={linkButtonStyle}>Open</button>
+                                    <button onClick={() => navigator.clipboard.writeText(tag.rule)} style={linkButtonStyle}>Copy</button>
+                                    <button onClick={() => startEditing(tag)} style={linkButtonStyle}>Edit</button>
+                                    <button onClick={() => deleteTag(tag)} style={{ ...linkButtonStyle, color: '#ff3366' }}>Delete</button>
+                                </div>
+                            </div>
+                        </>
+                    )}
+                </div>
+            ))}
+        </div>
+    );
+};
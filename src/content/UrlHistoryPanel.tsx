@@ -0,0 +1,121 @@
+import React, { useState, useEffect } from 'react';
+import { URLProcessor, URLRuleState } from '../services/url-processor';
+import { UrlHistory } from './url-history';
+
+interface UrlHistoryPanelProps {
+    history: UrlHistory;
+    processor: URLProcessor;
+    state: URLRuleState;
+    onApply: (state: URLRuleState) => void;
+}
+
+export const UrlHistoryPanel: React.FC<UrlHistoryPanelProps> = ({ history, processor, state, onApply }) => {
+    const [urls, setUrls] = useState<string[]>(() => history.getUniqueUrls());
+    const [excluded, setExcluded] = useState<Set<string>>(new Set());
+
+    useEffect(() => history.subscribe(() => setUrls(history.getUniqueUrls())), [history]);
+
+    const selected = urls.filter(url => !excluded.has(url));
+
+    const toggleUrl = (url: string) => {
+        setExcluded(prev => {
+            const next = new Set(prev);
+            if (next.has(url)) next.delete(url);
+            else next.add(url);
+            return next;
+        });
+    };
+
+    const clearHistory = () => {
+        history.clear();
+        setUrls([]);
+        setExcluded(new Set());
+    };
+
+    const stripOrigin = (url: string) => {
+        try {
+            const parsed = new URL(url);
+            return parsed.pathname + parsed.search + parsed.hash;
+        } catch {
+            return url;
+        }
+    };
+
+    const matchCount = urls.filter(url => processor.testUrl(state, url)).length;
+
+    return (
+        <section>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+                <label style={{ fontSize: '11px', fontWeight: 'bold', color: '#666' }}>
+                    VISITED URLS ({matchCount}/{urls.length} MATCH)
+                </label>
+                {urls.length > 0 && (
+                    <button
+                        onClick={clearHistory}
+                        style={{ background: 'none', border: 'none', color: '#999', cursor: 'pointer', fontSize: '10px', textDecoration: 'underline' }}
+                    >
+                        Clear
+                    </button>
+                )}
+            </div>
+
+            {urls.length === 0 ? (
+                <div style={{ fontSize: '11px', color: '#999' }}>
+                    Navigate around this site to collect URLs, then infer a rule that covers them.
+                </div>
+            ) : (
+                <div data-no-drag style={{
+                    maxHeight: '140px',
+                    overflowY: 'auto',
+                    display: 'flex',
+                    flexDirection: 'column',
+                    gap: '2px',
+                    border: '1px solid #eee',
+                    borderRadius: '6px',
+                    padding: '6px'
+                }}>
+                    {urls.map(url => {
+                        const matches = processor.testUrl(state, url);
+                        return (
+                            <label key={url} title={url} style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '11px', cursor: 'pointer' }}>
+                                <input type="checkbox" checked={!excluded.has(url)} onChange={() => toggleUrl(url)} />
+                                <span style={{ color: matches ? '#00884a' : '#cc0000', fontWeight: 'bold', width: '10px' }}>
+                                    {matches ? '✓' : '✗'}
+                                </span>
+                                <span style={{
+                                    fontFamily: 'monospace',
+                                    color: excluded.has(url) ? '#aaa' : '#333',
+                                    overflow: 'hidden',
+                                    textOverflow: 'ellipsis',
+                                    whiteSpace: 'nowrap'
+                                }}>
+                                    {stripOrigin(url)}
+                                </span>
+                            </label>
+                        );
+                    })}
+                </div>
+            )}
+
+            <button
+                onClick={() => onApply(processor.inferRule(selected))}
+                disabled={selected.length < 2}
+                style={{
+                    marginTop: '8px',
+                    width: '100%',
+                    padding: '8px',
+                    background: 'white',
+                    border: '1px solid #0066ff',
+                    color: '#0066ff',
+                    borderRadius: '6px',
+                    cursor: selected.length < 2 ? 'not-allowed' : 'pointer',
+                    opacity: selected.length < 2 ? 0.5 : 1,
+                    fontSize: '12px',
+                    fontWeight: '600'
+                }}
+            >
+                Infer Rule from {selected.length} URL(s)
+            </button>
+        </section>
+    );
+};
@@ -0,0 +1,30 @@
+import { ContentMessage, validateContentMessage, MessageValidationError } from '../services/messages';
+
+/**
+ * Receives messages from the background service worker and fans them out to the overlay's components.
+ */
+export class BackgroundChannel {
+    private listeners = new Set<(message: ContentMessage) => void>();
+
+    constructor() {
+        chrome.runtime.onMessage.addListener((raw) => {
+            let message: ContentMessage;
+            try {
+                message = validateContentMessage(raw);
+            } catch (e) {
+                if (!(e instanceof MessageValidationError)) throw e;
+                console.warn('Shadow Tagger: ignoring invalid message from background', raw, e.message);
+                return;
+            }
+            this.listeners.forEach(listener => listener(message));
+        });
+    }
+
+    /**
+     * Subscribes to background messages; returns an unsubscribe function.
+     */
+    public subscribe(listener: (message: ContentMessage) => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+}
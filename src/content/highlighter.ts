@@ -1,10 +1,23 @@
+import { getFrameOffset, UI_MARKER_ATTRIBUTE } from '../services/dom-utils';
+
+// 'warning' marks a selector that matches more than one element
+export type SelectionTone = 'default' | 'warning';
+
+const SELECTION_COLORS: Record<SelectionTone, { border: string; background: string }> = {
+    default: { border: '#4488ff', background: 'rgba(68, 136, 255, 0.2)' },
+    warning: { border: '#ff8800', background: 'rgba(255, 136, 0, 0.2)' }
+};
+
 export class Highlighter {
     private hoverOverlay: HTMLElement;
     private selectionOverlays: HTMLElement[] = [];
     private currentSelectionElements: Element[] = [];
+    private selectionTone: SelectionTone = 'default';
+    private tooltip: HTMLElement;
 
     constructor() {
         this.hoverOverlay = this.createOverlay('#00aaff', 'rgba(0, 170, 255, 0.1)');
+        this.tooltip = this.createTooltip();
     }
 
     private createOverlay(borderColor: string, bgColor: string): HTMLElement {
@@ -20,31 +33,81 @@ export class Highlighter {
             boxSizing: 'border-box',
             borderRadius: '2px'
         });
+        overlay.setAttribute(UI_MARKER_ATTRIBUTE, '');
         document.body.appendChild(overlay);
         return overlay;
     }
 
+    private createTooltip(): HTMLElement {
+        const tooltip = document.createElement('div');
+        Object.assign(tooltip.style, {
+            position: 'fixed',
+            pointerEvents: 'none',
+            zIndex: '2147483646',
+            display: 'none',
+            maxWidth: '480px',
+            padding: '3px 6px',
+            borderRadius: '3px',
+            background: 'rgba(20, 20, 30, 0.9)',
+            color: '#fff',
+            font: '11px monospace',
+            whiteSpace: 'nowrap',
+            overflow: 'hidden',
+            textOverflow: 'ellipsis'
+        });
+        tooltip.setAttribute(UI_MARKER_ATTRIBUTE, '');
+        document.body.appendChild(tooltip);
+        return tooltip;
+    }
+
     public highlight(element: Element) {
         this.positionOverlay(this.hoverOverlay, element);
     }
 
     public hide() {
         this.hoverOverlay.style.display = 'none';
+        this.hideTooltip();
+    }
+
+    /**
+     * Shows a one-line label above the element, or below it when the element touches the top of the viewport.
+     */
+    public showTooltip(element: Element, text: string) {
+        const rect = element.getBoundingClientRect();
+        const offset = getFrameOffset(element);
+        const top = rect.top + offset.y;
+        const below = top < 24;
+
+        this.tooltip.textContent = text;
+        Object.assign(this.tooltip.style, {
+            top: `${below ? rect.bottom + offset.y + 4 : top - 4}px`,
+            left: `${Math.max(0, rect.left + offset.x)}px`,
+            transform: below ? 'none' : 'translateY(-100%)',
+            display: 'block'
+        });
+    }
+
+    public hideTooltip() {
+        this.tooltip.style.display = 'none';
     }
 
-    public highlightSelection(elements: Element[]) {
+    public highlightSelection(elements: Element[], tone: SelectionTone = 'default') {
         this.currentSelectionElements = elements;
+        this.selectionTone = tone;
         this.refresh();
     }
 
     public refresh() {
         this.clearOverlays();
+        const colors = SELECTION_COLORS[this.selectionTone];
         this.currentSelectionElements.forEach((el, i) => {
             let overlay = this.selectionOverlays[i];
             if (!overlay) {
-                overlay = this.createOverlay('#4488ff', 'rgba(68, 136, 255, 0.2)');
+                overlay = this.createOverlay(colors.border, colors.background);
                 this.selectionOverlays.push(overlay);
             }
+            overlay.style.borderColor = colors.border;
+            overlay.style.backgroundColor = colors.background;
             this.positionOverlay(overlay, el);
         });
     }
@@ -61,10 +124,12 @@ export class Highlighter {
     }
 
     private positionOverlay(overlay: HTMLElement, element: Element) {
+        // Overlays live in the top document, so elements inside iframes need the frame offset added
         const rect = element.getBoundingClientRect();
+        const offset = getFrameOffset(element);
         Object.assign(overlay.style, {
-            top: `${rect.top}px`,
-            left: `${rect.left}px`,
+            top: `${rect.top + offset.y}px`,
+            left: `${rect.left + offset.x}px`,
             width: `${rect.width}px`,
             height: `${rect.height}px`,
             display: 'block'
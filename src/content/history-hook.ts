@@ -0,0 +1,25 @@
+/**
+ * Runs in the page's MAIN world (see manifest) so it can observe the page's own
+ * history.pushState / replaceState calls, which the isolated content script cannot see.
+ * The event name must match LOCATION_CHANGE_EVENT in url-history.ts.
+ */
+(() => {
+    const EVENT_NAME = 'shadow-tagger:locationchange';
+    const MARKER = '__shadowTaggerHistoryHook';
+
+    // The background may inject this script again into a tab that already has it
+    const win = window as unknown as Record<string, boolean>;
+    if (win[MARKER]) return;
+    win[MARKER] = true;
+
+    (['pushState', 'replaceState'] as const).forEach(method => {
+        const original = history[method];
+        history[method] = function (this: History, ...args: Parameters<History['pushState']>) {
+            const result = original.apply(this, args);
+            window.dispatchEvent(new CustomEvent(EVENT_NAME, { detail: { source: method } }));
+            return result;
+        };
+    });
+})();
+
+export { };
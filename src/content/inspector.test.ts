@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Inspector } from './inspector';
+import { resetPage, mountShadowComponent } from '../test/fixtures';
+
+describe('Inspector hover', () => {
+    let inspector: Inspector;
+    let fixture: ReturnType<typeof mountShadowComponent>;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        fixture = mountShadowComponent();
+        // Created after mounting, since mounting replaces the body and with it the highlight boxes
+        inspector = new Inspector();
+        inspector.activate(() => {});
+    });
+
+    afterEach(() => {
+        inspector.deactivate();
+        vi.useRealTimers();
+        resetPage();
+    });
+
+    const hover = (element: Element) => element.dispatchEvent(new MouseEvent('mouseover', { bubbles: true, composed: true }));
+    const tooltip = () => Array.from(document.body.children).find(el => (el as HTMLElement).style.fontFamily === 'monospace') as HTMLElement;
+
+    it('applies only the last hovered element once per animation frame', () => {
+        const highlight = vi.spyOn(inspector.getHighlighter(), 'highlight');
+        const onFocusChange = vi.fn();
+        inspector.activate(() => {}, { onFocusChange });
+
+        hover(fixture.host);
+        hover(fixture.save);
+        hover(fixture.submit);
+        expect(highlight).not.toHaveBeenCalled();
+
+        vi.advanceTimersToNextFrame();
+        expect(highlight.mock.calls).toEqual([[fixture.submit]]);
+        expect(onFocusChange.mock.calls).toEqual([[fixture.submit]]);
+    });
+
+    it('skips the update when the hovered element has not changed', () => {
+        const highlight = vi.spyOn(inspector.getHighlighter(), 'highlight');
+        hover(fixture.save);
+        vi.advanceTimersToNextFrame();
+        hover(fixture.save);
+        vi.advanceTimersToNextFrame();
+
+        expect(highlight).toHaveBeenCalledTimes(1);
+    });
+
+    it('computes the selector preview only after the pointer rests', () => {
+        const getSelector = vi.spyOn(inspector.getEngine(), 'getSelector');
+        inspector.setPreviewDelay(300);
+
+        hover(fixture.save);
+        vi.advanceTimersToNextFrame();
+        hover(fixture.submit);
+        vi.advanceTimersToNextFrame();
+        vi.advanceTimersByTime(299);
+        expect(getSelector).not.toHaveBeenCalled();
+
+        vi.advanceTimersByTime(1);
+        expect(getSelector.mock.calls).toEqual([[fixture.submit]]);
+        expect(tooltip().style.display).toBe('block');
+        expect(tooltip().textContent).toBe('my-component::shadow [aria-label="Submit"]');
+
+        hover(fixture.host);
+        vi.advanceTimersToNextFrame();
+        expect(tooltip().style.display).toBe('none');
+    });
+
+    it('does not preview when the delay is 0 or after deactivation', () => {
+        const getSelector = vi.spyOn(inspector.getEngine(), 'getSelector');
+        inspector.setPreviewDelay(0);
+        hover(fixture.save);
+        vi.advanceTimersToNextFrame();
+        vi.runAllTimers();
+
+        inspector.setPreviewDelay(100);
+        hover(fixture.submit);
+        vi.advanceTimersToNextFrame();
+        inspector.deactivate();
+        vi.runAllTimers();
+
+        expect(getSelector).not.toHaveBeenCalled();
+    });
+});
+
+describe('Inspector context target', () => {
+    let inspector: Inspector;
+
+    afterEach(() => resetPage());
+
+    const rightClick = (element: Element) => element.dispatchEvent(new MouseEvent('contextmenu', { bubbles: true, composed: true }));
+
+    it('only returns the target for the frame the menu was opened in', () => {
+        const { save } = mountShadowComponent();
+        inspector = new Inspector();
+        rightClick(save);
+
+        expect(inspector.getContextTarget({ frameId: 0 })).toBe(save);
+        // e.g. a cross-origin iframe, whose right-clicks the inspector never sees
+        expect(inspector.getContextTarget({ frameId: 7, frameUrl: 'https://ads.example.net/' })).toBeNull();
+    });
+
+    it('sees right-clicks in same-origin iframes inserted after it was created', async () => {
+        inspector = new Inspector();
+        const frame = document.createElement('iframe');
+        document.body.appendChild(frame);
+        await new Promise(resolve => setTimeout(resolve));
+
+        const frameDoc = frame.contentDocument!;
+        frameDoc.body.innerHTML = '<button>Inside</button>';
+        const button = frameDoc.querySelector('button')!;
+        rightClick(button);
+
+        expect(inspector.getContextTarget({ frameId: 3, frameUrl: frameDoc.URL })).toBe(button);
+        expect(inspector.getContextTarget({ frameId: 0 })).toBeNull();
+    });
+});
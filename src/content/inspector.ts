@@ -1,23 +1,65 @@
 import { SelectorEngine, SelectorOptions, ElementNode } from '../services/selector-engine';
+import { isElementNode, isShadowRootNode, isIFrameElement, getFrameDocument, isExtensionUi } from '../services/dom-utils';
 import { Highlighter } from './highlighter';
+import { ContextMenuOrigin } from '../services/messages';
+
+export interface FrameContext {
+    selector: string;     // Selector for the <iframe> element within its parent document
+    src: string;
+    crossOrigin: boolean;
+}
 
 export interface InspectorAnalysis {
     selector: string;
     breadcrumbs: string[];
     isInsideShadow: boolean;
     path: ElementNode[];
+    closedShadowHost: boolean;  // Target hides its internals in a closed shadow root
+    frame?: FrameContext;       // Set when the target lives in a same-origin iframe
+    slotPath?: ElementNode[];   // Path to the slot container, when the target is slotted content
+}
+
+export interface InspectorHooks {
+    // Called with the frame while hovering a cross-origin iframe, and with null when leaving it
+    onCrossOriginFrame?: (frame: FrameContext | null) => void;
+    // Called whenever the hovered / keyboard-focused element changes
+    onFocusChange?: (element: HTMLElement) => void;
+    // Called when the inspector turns itself off (Esc)
+    onDeactivate?: () => void;
 }
 
+// Elements that never render and only get in the way of keyboard traversal
+const SKIPPED_TAGS = ['STYLE', 'SCRIPT', 'TEMPLATE', 'LINK', 'META', 'NOSCRIPT'];
+
+// How long the pointer has to rest on an element before its selector preview appears
+export const DEFAULT_PREVIEW_DELAY = 400;
+
 export class Inspector {
     private engine: SelectorEngine;
     private highlighter: Highlighter;
     private isActive: boolean = false;
     private onElementSelected?: (analysis: InspectorAnalysis) => void;
+    private hooks: InspectorHooks = {};
+    private attachedWindows = new WeakSet<Window>();
+    private watchedFrames = new WeakSet<HTMLIFrameElement>();
+    private watchedDocuments = new WeakSet<Document>();
+    private hoveringCrossOrigin = false;
+    private focusedElement: HTMLElement | null = null;
+    private contextTarget: { element: HTMLElement; point: { x: number; y: number } } | null = null;
+    // Hover is applied once per animation frame, to the last element the pointer entered
+    private pendingHover: HTMLElement | null = null;
+    private hoverFrame: number | null = null;
+    private previewTimer: ReturnType<typeof setTimeout> | null = null;
+    private previewDelay = DEFAULT_PREVIEW_DELAY;
 
     constructor() {
         this.engine = new SelectorEngine();
+        // shadow-root-hook.js reports shadow roots attached after load, so the index stays complete
+        this.engine.enableShadowRootIndex();
         this.highlighter = new Highlighter();
-        this.setupListeners();
+        this.attachListeners(window);
+        // Right-clicks inside frames must be seen before the inspector is ever activated
+        this.attachToFrames(document);
     }
 
     public setOptions(options: Partial<SelectorOptions>) {
@@ -32,47 +74,314 @@ export class Inspector {
         return this.highlighter;
     }
 
+    /**
+     * Sets how long (ms) the pointer must rest on an element before its selector preview is shown; 0 turns the preview off.
+     */
+    public setPreviewDelay(delay: number) {
+        this.previewDelay = Math.max(0, delay);
+    }
 
-    public activate(callback: (analysis: InspectorAnalysis) => void) {
+    public activate(callback: (analysis: InspectorAnalysis) => void, hooks: InspectorHooks = {}) {
         this.isActive = true;
         this.onElementSelected = callback;
-        document.body.style.cursor = 'crosshair';
+        this.hooks = hooks;
+        // Frames may have been added or navigated since the last activation
+        this.attachToFrames(document);
+        this.forEachDocument(doc => doc.body && (doc.body.style.cursor = 'crosshair'));
     }
 
     public deactivate() {
         this.isActive = false;
+        this.focusedElement = null;
+        this.pendingHover = null;
+        if (this.hoverFrame !== null) {
+            cancelAnimationFrame(this.hoverFrame);
+            this.hoverFrame = null;
+        }
+        this.cancelPreview();
         this.highlighter.hide();
-        document.body.style.cursor = 'default';
+        this.setCrossOriginHover(null);
+        this.forEachDocument(doc => doc.body && (doc.body.style.cursor = 'default'));
+    }
+
+    /**
+     * Moves the inspection focus to an element, e.g. when a node is picked in the builder.
+     */
+    public focusElement(element: HTMLElement) {
+        if (!this.isActive) return;
+        this.focusedElement = element;
+        this.highlighter.highlight(element);
+        element.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+        this.hooks.onFocusChange?.(element);
+        this.schedulePreview(element);
+    }
+
+    /**
+     * The element that was last right-clicked, as seen through open shadow roots, provided it lives in
+     * the frame the menu was opened in. Right-clicks in cross-origin frames never reach the inspector,
+     * so a menu opened there must not act on an earlier target.
+     */
+    public getContextTarget(origin: ContextMenuOrigin): HTMLElement | null {
+        const element = this.contextTarget?.element;
+        if (!element?.isConnected) return null;
+
+        const doc = element.ownerDocument;
+        if (origin.frameId === 0) return doc === document ? element : null;
+        const inAttachedFrame = doc !== document && !!doc.defaultView && this.attachedWindows.has(doc.defaultView);
+        return inAttachedFrame && doc.URL === origin.frameUrl ? element : null;
+    }
+
+    /**
+     * Analyzes the last right-clicked element, as if it had been picked with the inspector.
+     */
+    public analyzeContextTarget(origin: ContextMenuOrigin): InspectorAnalysis | null {
+        const element = this.getContextTarget(origin);
+        return element ? this.analyze(element, this.contextTarget!.point) : null;
+    }
+
+    /**
+     * Describes the iframe an element lives in, or undefined for the top document.
+     */
+    public getFrameContext(element: Element): FrameContext | undefined {
+        const frame = element.ownerDocument.defaultView?.frameElement;
+        if (!frame || !isIFrameElement(frame)) return undefined;
+        return this.describeFrame(frame, false);
     }
 
-    private setupListeners() {
-        window.addEventListener('mouseover', (e) => {
+    private attachListeners(win: Window) {
+        if (this.attachedWindows.has(win)) return;
+        this.attachedWindows.add(win);
+
+        win.addEventListener('mouseover', (e) => {
             if (!this.isActive) return;
 
-            const target = e.composedPath()[0] as HTMLElement;
-            if (target && target instanceof HTMLElement) {
-                this.highlighter.highlight(target);
+            const target = e.composedPath()[0];
+            if (!isElementNode(target) || isExtensionUi(target)) return;
+
+            // Fast pointer movement fires many mouseovers per frame; only the last one is worth a layout read
+            this.pendingHover = target;
+            if (this.hoverFrame === null) {
+                this.hoverFrame = requestAnimationFrame(() => this.applyHover());
             }
         }, { capture: true });
 
-        window.addEventListener('click', (e) => {
+        win.addEventListener('click', (e) => {
             if (!this.isActive) return;
 
             e.preventDefault();
             e.stopPropagation();
 
-            const target = e.composedPath()[0] as HTMLElement;
-            if (target && target instanceof HTMLElement) {
-                const analysis = this.engine.getAnalysis(target);
-                const path = this.engine.buildPath(target);
-                if (this.onElementSelected) {
-                    this.onElementSelected({
-                        ...analysis,
-                        path
-                    });
-                }
+            const target = e.composedPath()[0];
+            if (isElementNode(target)) {
+                this.selectElement(target, { x: e.clientX, y: e.clientY });
             }
         }, { capture: true });
+
+        // Recorded whether or not the inspector is active, for the context menu items.
+        // Presses in this window reset it; menus opened in frames we cannot see are rejected by getContextTarget.
+        win.addEventListener('pointerdown', () => this.contextTarget = null, { capture: true, passive: true });
+        win.addEventListener('contextmenu', (e) => {
+            const target = e.composedPath()[0];
+            if (!isElementNode(target) || isExtensionUi(target)) return;
+            this.contextTarget = { element: target, point: { x: e.clientX, y: e.clientY } };
+        }, { capture: true });
+
+        win.addEventListener('keydown', (e) => {
+            if (!this.isActive) return;
+            // Let the overlay's own inputs receive keys normally
+            if (isExtensionUi(e.composedPath()[0] as Node)) return;
+            this.handleKey(e);
+        }, { capture: true });
+
+        // Scrolling inside a frame moves its elements without a top-level scroll event
+        if (win !== window) {
+            win.addEventListener('scroll', () => this.highlighter.refresh(), { capture: true, passive: true });
+        }
     }
-}
 
+    private applyHover() {
+        this.hoverFrame = null;
+        const target = this.pendingHover;
+        this.pendingHover = null;
+        // Re-entering the same element (e.g. across a shadow boundary) changes nothing
+        if (!this.isActive || !target || target === this.focusedElement) return;
+
+        this.focusedElement = target;
+        this.highlighter.highlight(target);
+        this.hooks.onFocusChange?.(target);
+        this.schedulePreview(target);
+
+        if (isIFrameElement(target) && !getFrameDocument(target)) {
+            this.setCrossOriginHover(this.describeFrame(target, true));
+        } else {
+            this.setCrossOriginHover(null);
+        }
+    }
+
+    /**
+     * Computes the selector only once the pointer rests on the element, instead of on every hover.
+     */
+    private schedulePreview(target: HTMLElement) {
+        this.cancelPreview();
+        if (this.previewDelay === 0) return;
+
+        this.previewTimer = setTimeout(() => {
+            this.previewTimer = null;
+            if (!this.isActive || this.focusedElement !== target || !target.isConnected) return;
+            this.highlighter.showTooltip(target, this.engine.getSelector(target));
+        }, this.previewDelay);
+    }
+
+    private cancelPreview() {
+        if (this.previewTimer !== null) {
+            clearTimeout(this.previewTimer);
+            this.previewTimer = null;
+        }
+        this.highlighter.hideTooltip();
+    }
+
+    private selectElement(target: HTMLElement, point?: { x: number; y: number }) {
+        this.cancelPreview();
+        this.onElementSelected?.(this.analyze(target, point));
+    }
+
+    private analyze(target: HTMLElement, point?: { x: number; y: number }): InspectorAnalysis {
+        const analysis = this.engine.getAnalysis(target);
+        const path = this.engine.buildPath(target, { point });
+        const isSlotted = !!this.engine.getSlotContainer(target);
+        return {
+            ...analysis,
+            path,
+            closedShadowHost: !!path[0]?.hasClosedShadowRoot,
+            frame: this.getFrameContext(target),
+            slotPath: isSlotted ? this.engine.buildPath(target, { point, slotMode: 'slot' }) : undefined
+        };
+    }
+
+    /**
+     * Arrow keys walk the composed tree (crossing shadow and same-origin frame boundaries),
+     * Enter locks the focused element and Esc turns the inspector off.
+     */
+    private handleKey(e: KeyboardEvent) {
+        const current = this.focusedElement;
+        let next: HTMLElement | null = null;
+
+        switch (e.key) {
+            case 'ArrowUp':
+                next = current && this.getComposedParent(current);
+                break;
+            case 'ArrowDown':
+                next = current && this.getFirstComposedChild(current);
+                break;
+            case 'ArrowLeft':
+                next = current && this.getSibling(current, 'previous');
+                break;
+            case 'ArrowRight':
+                next = current && this.getSibling(current, 'next');
+                break;
+            case 'Enter':
+                if (current) {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    this.selectElement(current);
+                }
+                return;
+            case 'Escape':
+                e.preventDefault();
+                e.stopPropagation();
+                this.deactivate();
+                this.hooks.onDeactivate?.();
+                return;
+            default:
+                return;
+        }
+
+        // Swallow arrows so the page does not scroll while navigating
+        e.preventDefault();
+        e.stopPropagation();
+        if (next) this.focusElement(next);
+    }
+
+    private getComposedParent(element: HTMLElement): HTMLElement | null {
+        const parent = element.parentNode;
+        if (isShadowRootNode(parent)) return parent.host as HTMLElement;
+        if (isElementNode(parent)) return parent;
+
+        // Top of a same-origin iframe: continue with the <iframe> element in the parent document
+        const frame = element.ownerDocument.defaultView?.frameElement;
+        return isElementNode(frame) ? frame : null;
+    }
+
+    private getFirstComposedChild(element: HTMLElement): HTMLElement | null {
+        if (isIFrameElement(element)) {
+            return getFrameDocument(element)?.body ?? null;
+        }
+        const children = Array.from((element.shadowRoot ?? element).children);
+        return (children.find(child => isElementNode(child) && !SKIPPED_TAGS.includes(child.tagName)) as HTMLElement) ?? null;
+    }
+
+    private getSibling(element: HTMLElement, direction: 'previous' | 'next'): HTMLElement | null {
+        let sibling = direction === 'next' ? element.nextElementSibling : element.previousElementSibling;
+        while (sibling && (SKIPPED_TAGS.includes(sibling.tagName) || isExtensionUi(sibling))) {
+            sibling = direction === 'next' ? sibling.nextElementSibling : sibling.previousElementSibling;
+        }
+        return isElementNode(sibling) ? sibling : null;
+    }
+
+    /**
+     * Hooks every same-origin iframe reachable from the document, including nested ones,
+     * and keeps watching the document for iframes inserted later.
+     */
+    private attachToFrames(doc: Document) {
+        if (!this.watchedDocuments.has(doc)) {
+            this.watchedDocuments.add(doc);
+            new MutationObserver(mutations => {
+                const addsFrame = mutations.some(mutation => Array.from(mutation.addedNodes).some(node =>
+                    isIFrameElement(node) || (isElementNode(node) && !!node.querySelector('iframe'))));
+                if (addsFrame) this.attachToFrames(doc);
+            }).observe(doc, { childList: true, subtree: true });
+        }
+
+        doc.querySelectorAll('iframe').forEach(frame => {
+            // A frame that navigates gets a fresh window, so re-attach after each load
+            if (!this.watchedFrames.has(frame)) {
+                this.watchedFrames.add(frame);
+                frame.addEventListener('load', () => {
+                    const frameDoc = getFrameDocument(frame);
+                    if (frameDoc && frame.contentWindow) {
+                        this.attachListeners(frame.contentWindow);
+                        this.attachToFrames(frameDoc);
+                    }
+                });
+            }
+
+            const frameDoc = getFrameDocument(frame);
+            if (frameDoc && frame.contentWindow) {
+                this.attachListeners(frame.contentWindow);
+                this.attachToFrames(frameDoc);
+            }
+        });
+    }
+
+    private forEachDocument(fn: (doc: Document) => void, doc: Document = document) {
+        fn(doc);
+        doc.querySelectorAll('iframe').forEach(frame => {
+            const frameDoc = getFrameDocument(frame);
+            if (frameDoc) this.forEachDocument(fn, frameDoc);
+        });
+    }
+
+    private describeFrame(frame: HTMLIFrameElement, crossOrigin: boolean): FrameContext {
+        return {
+            selector: this.engine.getSelector(frame),
+            src: frame.src || 'about:blank',
+            crossOrigin
+        };
+    }
+
+    private setCrossOriginHover(frame: FrameContext | null) {
+        if (!frame && !this.hoveringCrossOrigin) return;
+        this.hoveringCrossOrigin = !!frame;
+        this.hooks.onCrossOriginFrame?.(frame);
+    }
+}
@@ -2,10 +2,27 @@ import React from 'react';
 import { createRoot } from 'react-dom/client';
 import { OverlayContainer } from './OverlayContainer';
 import { Inspector } from './inspector';
+import { UrlHistory } from './url-history';
+import { BackgroundChannel } from './background-channel';
+import { sendToBackground } from '../services/messages';
+import { UI_MARKER_ATTRIBUTE } from '../services/dom-utils';
+
+const MARKER = '__shadowTaggerOverlay';
 
 const initOverlay = () => {
+  // The background may inject this script into a tab that already has it. The marker lives in
+  // this extension context's isolated world, so a reloaded extension gets a fresh one
+  const win = window as unknown as Record<string, boolean>;
+  if (win[MARKER]) return;
+  win[MARKER] = true;
+
+  // Left behind by a content script orphaned when the extension was reloaded; it can no longer
+  // reach the background, so it is replaced rather than reused
+  document.getElementById('shadow-tagger-host')?.remove();
+
   const host = document.createElement('div');
   host.id = 'shadow-tagger-host';
+  host.setAttribute(UI_MARKER_ATTRIBUTE, '');
   host.style.display = 'none'; // Start hidden
   document.body.appendChild(host);
 
@@ -24,15 +41,26 @@ const initOverlay = () => {
   shadowRoot.appendChild(style);
 
   const inspector = new Inspector();
+  // Start recording before the overlay is opened so earlier navigations are available
+  const urlHistory = new UrlHistory();
+  const channel = new BackgroundChannel();
   const root = createRoot(container);
-  root.render(<OverlayContainer inspector={inspector} />);
+  root.render(<OverlayContainer inspector={inspector} urlHistory={urlHistory} channel={channel} />);
 
   // Listen for toggle message
-  chrome.runtime.onMessage.addListener((message) => {
+  channel.subscribe((message) => {
     if (message.type === 'TOGGLE_OVERLAY') {
       host.style.display = host.style.display === 'none' ? 'block' : 'none';
+    } else if (message.type === 'CONTEXT_MENU_ACTION' && message.action === 'tag-element' && inspector.getContextTarget(message)) {
+      // OverlayContainer loads the element into the builder; copying works without the overlay
+      host.style.display = 'block';
     }
   });
+
+  // Lets the background track this tab's domain for badge counts and library sync
+  sendToBackground({ type: 'PAGE_READY', domain: window.location.hostname }).catch((e) => {
+    console.warn('Shadow Tagger: background unavailable', e);
+  });
 };
 
 initOverlay();
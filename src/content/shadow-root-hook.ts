@@ -0,0 +1,27 @@
+/**
+ * Runs in the page's MAIN world (see manifest) so it can observe the page's own attachShadow calls.
+ * Attaching a shadow root to an element already in the page causes no DOM mutation, so without this
+ * the content script's shadow root index would miss e.g. custom elements upgraded after load.
+ * The event name must match SHADOW_ROOT_ATTACHED_EVENT in shadow-root-index.ts.
+ */
+(() => {
+    const EVENT_NAME = 'shadow-tagger:shadowrootattached';
+    const MARKER = '__shadowTaggerShadowRootHook';
+
+    // The background may inject this script again into a tab that already has it
+    const win = window as unknown as Record<string, boolean>;
+    if (win[MARKER]) return;
+    win[MARKER] = true;
+
+    const original = Element.prototype.attachShadow;
+    Element.prototype.attachShadow = function (this: Element, init: ShadowRootInit) {
+        const root = original.call(this, init);
+        // Closed roots are invisible to Pendo too; detached hosts are indexed once inserted
+        if (init.mode === 'open' && this.isConnected) {
+            this.dispatchEvent(new CustomEvent(EVENT_NAME, { bubbles: true, composed: true }));
+        }
+        return root;
+    };
+})();
+
+export { };
@@ -0,0 +1,86 @@
+import { NavigationSource, UrlVisit, sendToBackground } from '../services/messages';
+
+// Dispatched by history-hook.ts from the page's MAIN world
+export const LOCATION_CHANGE_EVENT = 'shadow-tagger:locationchange';
+
+const MAX_VISITS = 200;
+
+/**
+ * Records the URLs this tab visits, including client-side (SPA) navigations.
+ * The background keeps the tab's history, so it survives full page loads and cross-origin navigation.
+ */
+export class UrlHistory {
+    private visits: UrlVisit[] = [];
+    private listeners = new Set<(visits: UrlVisit[]) => void>();
+
+    constructor() {
+        this.record('load');
+        this.loadFromBackground();
+
+        window.addEventListener(LOCATION_CHANGE_EVENT, (e) => {
+            const source = (e as CustomEvent<{ source: NavigationSource }>).detail?.source ?? 'pushState';
+            this.record(source);
+        });
+        window.addEventListener('popstate', () => this.record('popstate'));
+        window.addEventListener('hashchange', () => this.record('hashchange'));
+    }
+
+    public getVisits(): UrlVisit[] {
+        return [...this.visits];
+    }
+
+    /**
+     * Distinct URLs in the order they were first visited.
+     */
+    public getUniqueUrls(): string[] {
+        return Array.from(new Set(this.visits.map(v => v.url)));
+    }
+
+    public clear() {
+        this.visits = [];
+        sendToBackground({ type: 'CLEAR_TAB_HISTORY' }).catch(e => console.warn('Shadow Tagger: could not clear history', e));
+        this.notify();
+    }
+
+    /**
+     * Subscribes to history changes; returns an unsubscribe function.
+     */
+    public subscribe(listener: (visits: UrlVisit[]) => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    private record(source: NavigationSource) {
+        const url = window.location.href;
+        // pushState + hashchange can both fire for one navigation
+        if (this.visits.length > 0 && this.visits[this.visits.length - 1].url === url) return;
+
+        const visit: UrlVisit = { url, visitedAt: Date.now(), source };
+        this.visits.push(visit);
+        if (this.visits.length > MAX_VISITS) {
+            this.visits = this.visits.slice(-MAX_VISITS);
+        }
+        sendToBackground({ type: 'RECORD_VISIT', visit }).catch(e => console.warn('Shadow Tagger: could not record visit', e));
+        this.notify();
+    }
+
+    /**
+     * Prepends the visits from earlier page loads in this tab.
+     */
+    private async loadFromBackground() {
+        try {
+            const earlier = await sendToBackground({ type: 'GET_TAB_HISTORY' });
+            const known = new Set(this.visits.map(v => `${v.visitedAt}|${v.url}`));
+            const merged = [...earlier.filter(v => !known.has(`${v.visitedAt}|${v.url}`)), ...this.visits];
+            this.visits = merged.sort((a, b) => a.visitedAt - b.visitedAt).slice(-MAX_VISITS);
+            this.notify();
+        } catch (e) {
+            // History then only covers this page load
+            console.warn('Shadow Tagger: could not load tab history', e);
+        }
+    }
+
+    private notify() {
+        this.listeners.forEach(listener => listener(this.getVisits()));
+    }
+}
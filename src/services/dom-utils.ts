@@ -0,0 +1,66 @@
+// nodeType values; the global Node constructor does not exist outside a browser (e.g. jsdom in Node)
+const ELEMENT_NODE = 1;
+const DOCUMENT_FRAGMENT_NODE = 11;
+
+/**
+ * Realm-safe node checks. `instanceof HTMLElement` fails for nodes that live in a
+ * same-origin iframe because each frame has its own set of DOM constructors.
+ */
+export function isElementNode(node: unknown): node is HTMLElement {
+    return !!node && (node as Node).nodeType === ELEMENT_NODE;
+}
+
+export function isShadowRootNode(node: unknown): node is ShadowRoot {
+    return !!node && (node as Node).nodeType === DOCUMENT_FRAGMENT_NODE && 'host' in (node as ShadowRoot);
+}
+
+export function isIFrameElement(node: unknown): node is HTMLIFrameElement {
+    return isElementNode(node) && node.tagName === 'IFRAME';
+}
+
+// Marks DOM that belongs to the extension itself (overlay host, highlight boxes)
+export const UI_MARKER_ATTRIBUTE = 'data-shadow-tagger-ui';
+
+/**
+ * True if the node is part of the extension's own UI, including nodes inside the overlay's shadow root.
+ */
+export function isExtensionUi(node: Node): boolean {
+    let current: Node | null = node;
+    while (current) {
+        if (isElementNode(current) && current.hasAttribute(UI_MARKER_ATTRIBUTE)) return true;
+        current = isShadowRootNode(current) ? current.host : current.parentNode;
+    }
+    return false;
+}
+
+/**
+ * Returns the iframe's document if it is same-origin and loaded, otherwise null.
+ */
+export function getFrameDocument(frame: HTMLIFrameElement): Document | null {
+    try {
+        return frame.contentDocument;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Offset of an element's document relative to the top window's viewport, accumulated
+ * across nested same-origin iframes (border and padding of each iframe included).
+ */
+export function getFrameOffset(element: Element): { x: number; y: number } {
+    let x = 0;
+    let y = 0;
+    let win = element.ownerDocument.defaultView;
+
+    while (win && win.frameElement) {
+        const frame = win.frameElement as HTMLElement;
+        const rect = frame.getBoundingClientRect();
+        const style = frame.ownerDocument.defaultView?.getComputedStyle(frame);
+        x += rect.left + frame.clientLeft + parseFloat(style?.paddingLeft || '0');
+        y += rect.top + frame.clientTop + parseFloat(style?.paddingTop || '0');
+        win = frame.ownerDocument.defaultView;
+    }
+
+    return { x, y };
+}
@@ -0,0 +1,62 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { JSDOM } from 'jsdom';
+import { SelectorEngine } from './selector-engine';
+import { URLProcessor } from './url-processor';
+
+// No global document, window or Node here: everything must go through the explicit root or base URL
+describe('services without a global DOM', () => {
+    const page = () => {
+        const document = new JSDOM(`
+            <div id="modal-dialog"><my-component></my-component></div>
+            <div id="sidebar"><my-component></my-component></div>
+        `).window.document;
+        document.querySelectorAll('my-component').forEach(host => {
+            host.attachShadow({ mode: 'open' }).innerHTML = '<button class="primary">Save</button>';
+        });
+        return document;
+    };
+
+    it('has no global document', () => {
+        expect(typeof document).toBe('undefined');
+    });
+
+    it('builds and resolves selectors against an explicit document', () => {
+        const doc = page();
+        const engine = new SelectorEngine();
+        const button = doc.querySelector('my-component')!.shadowRoot!.querySelector('button') as HTMLElement;
+
+        const path = engine.buildPath(button);
+        expect(engine.generateSelectorFromPath(path)).toBe('my-component::shadow button');
+        expect(engine.queryPendoSelector('my-component::shadow button.primary', doc)).toHaveLength(2);
+    });
+
+    it('scopes queries to an element root, including its own shadow root', () => {
+        const doc = page();
+        const engine = new SelectorEngine();
+        const modal = doc.getElementById('modal-dialog')!;
+        const host = modal.querySelector('my-component')!;
+
+        expect(engine.queryPendoSelector('my-component::shadow button', modal)).toHaveLength(1);
+        expect(engine.queryPendoSelector('button.primary', host)).toEqual([host.shadowRoot!.querySelector('button')]);
+    });
+
+    it('queries a detached subtree', () => {
+        const doc = page();
+        const engine = new SelectorEngine();
+        const detached = doc.getElementById('sidebar')!;
+        detached.remove();
+
+        expect(engine.queryPendoSelector('my-component::shadow button', detached)).toHaveLength(1);
+        expect(engine.queryPendoSelector('my-component::shadow button', doc)).toHaveLength(1);
+    });
+
+    it('resolves relative URLs against an explicit base', () => {
+        const processor = new URLProcessor();
+        const state = processor.analyzeUrl('/account/42/details?utm_source=mail', 'https://app.example.com/home');
+
+        expect(state.domain).toBe('app.example.com');
+        expect(processor.generateRule(state)).toBe('//*/account/*/details');
+        expect(() => processor.analyzeUrl('/account/42')).toThrow();
+    });
+});
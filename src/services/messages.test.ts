@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { validateBackgroundMessage, validateContentMessage, MessageValidationError } from './messages';
+
+describe('message validation', () => {
+    it('accepts well-formed messages', () => {
+        const visit = { url: 'https://app.example.com/', visitedAt: 1, source: 'pushState' };
+        expect(validateBackgroundMessage({ type: 'RECORD_VISIT', visit })).toEqual({ type: 'RECORD_VISIT', visit });
+        expect(validateContentMessage({ type: 'CONTEXT_MENU_ACTION', action: 'copy-selector', frameId: 0 }))
+            .toMatchObject({ action: 'copy-selector' });
+    });
+
+    it('rejects unknown types and payloads with the wrong field types', () => {
+        expect(() => validateBackgroundMessage({ type: 'NOPE' })).toThrow(MessageValidationError);
+        expect(() => validateBackgroundMessage({ type: 'RECORD_VISIT', visit: { url: 'x', visitedAt: 1, source: 'reload' } }))
+            .toThrow(MessageValidationError);
+        expect(() => validateBackgroundMessage({ type: 'STORAGE_GET', keys: ['a', 1] })).toThrow(MessageValidationError);
+        expect(() => validateContentMessage({ type: 'CONTEXT_MENU_ACTION', action: ['tag-element'], frameId: 0 }))
+            .toThrow(MessageValidationError);
+    });
+
+    it('rejects types that only exist on the schema prototype', () => {
+        for (const type of ['toString', 'constructor', '__proto__', 'hasOwnProperty']) {
+            expect(() => validateBackgroundMessage({ type })).toThrow(MessageValidationError);
+            expect(() => validateContentMessage({ type })).toThrow(MessageValidationError);
+        }
+    });
+
+    it('rejects tag saves for a different domain than the one being updated', () => {
+        const tag = { id: 't1', domain: 'other.example.com' };
+        expect(() => validateBackgroundMessage({ type: 'TAG_SAVE', domain: 'app.example.com', tags: [tag] }))
+            .toThrow(MessageValidationError);
+    });
+});
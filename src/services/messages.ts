@@ -0,0 +1,180 @@
+import { SavedTag } from './tag-store';
+
+/**
+ * Message protocol between the background service worker and content scripts.
+ * Every message is validated when sent and again when received, since either side
+ * may be running an older build after an extension update.
+ */
+
+export type NavigationSource = 'load' | 'pushState' | 'replaceState' | 'popstate' | 'hashchange';
+
+export interface UrlVisit {
+    url: string;
+    visitedAt: number;
+    source: NavigationSource;
+}
+
+export type ContextMenuAction = 'tag-element' | 'copy-selector';
+
+// Background → content script
+
+export interface ToggleOverlayMessage {
+    type: 'TOGGLE_OVERLAY';
+}
+
+export interface TagLibraryChangedMessage {
+    type: 'TAG_LIBRARY_CHANGED';
+    domain: string;
+}
+
+// Frame the context menu was opened in, as reported by chrome.contextMenus
+export interface ContextMenuOrigin {
+    frameId: number;      // 0 = top frame
+    frameUrl?: string;
+}
+
+export interface ContextMenuActionMessage extends ContextMenuOrigin {
+    type: 'CONTEXT_MENU_ACTION';
+    action: ContextMenuAction;
+}
+
+export type ContentMessage = ToggleOverlayMessage | TagLibraryChangedMessage | ContextMenuActionMessage;
+
+// Content script → background
+
+export interface PageReadyMessage {
+    type: 'PAGE_READY';
+    domain: string;
+}
+
+export interface StorageGetMessage {
+    type: 'STORAGE_GET';
+    keys: string[] | null;  // null = everything
+}
+
+// Tag library updates are applied by the background in one step, so tabs saving at the same time do not lose tags
+
+export interface TagSaveMessage {
+    type: 'TAG_SAVE';
+    domain: string;
+    tags: SavedTag[];  // Inserted, or replacing the stored tag with the same id
+}
+
+export interface TagRemoveMessage {
+    type: 'TAG_REMOVE';
+    domain: string;
+    id: string;
+}
+
+export interface RecordVisitMessage {
+    type: 'RECORD_VISIT';
+    visit: UrlVisit;
+}
+
+export interface GetTabHistoryMessage {
+    type: 'GET_TAB_HISTORY';
+}
+
+export interface ClearTabHistoryMessage {
+    type: 'CLEAR_TAB_HISTORY';
+}
+
+export type BackgroundMessage =
+    | PageReadyMessage
+    | StorageGetMessage
+    | TagSaveMessage
+    | TagRemoveMessage
+    | RecordVisitMessage
+    | GetTabHistoryMessage
+    | ClearTabHistoryMessage;
+
+// Response payload for each background message type
+export interface BackgroundResponses {
+    PAGE_READY: { tagCount: number };
+    STORAGE_GET: Record<string, unknown>;
+    TAG_SAVE: null;
+    TAG_REMOVE: null;
+    RECORD_VISIT: null;
+    GET_TAB_HISTORY: UrlVisit[];
+    CLEAR_TAB_HISTORY: null;
+}
+
+export type MessageResponse<T> = { ok: true; data: T } | { ok: false; error: string };
+
+export class MessageValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'MessageValidationError';
+    }
+}
+
+const NAVIGATION_SOURCES: NavigationSource[] = ['load', 'pushState', 'replaceState', 'popstate', 'hashchange'];
+const CONTEXT_MENU_ACTIONS: ContextMenuAction[] = ['tag-element', 'copy-selector'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isOneOf = <T extends string>(allowed: readonly T[], value: unknown): value is T =>
+    isString(value) && (allowed as readonly string[]).includes(value);
+
+const isVisit = (value: unknown): value is UrlVisit =>
+    isObject(value) && isString(value.url) && typeof value.visitedAt === 'number' && isOneOf(NAVIGATION_SOURCES, value.source);
+
+// Payload checks per message type; the type field itself is checked by the validators below
+const CONTENT_SCHEMAS: Record<ContentMessage['type'], (message: Record<string, unknown>) => boolean> = {
+    TOGGLE_OVERLAY: () => true,
+    TAG_LIBRARY_CHANGED: m => isString(m.domain),
+    CONTEXT_MENU_ACTION: m => isOneOf(CONTEXT_MENU_ACTIONS, m.action) &&
+        typeof m.frameId === 'number' && (m.frameUrl === undefined || isString(m.frameUrl))
+};
+
+const BACKGROUND_SCHEMAS: Record<BackgroundMessage['type'], (message: Record<string, unknown>) => boolean> = {
+    PAGE_READY: m => isString(m.domain),
+    STORAGE_GET: m => m.keys === null || (Array.isArray(m.keys) && m.keys.every(isString)),
+    TAG_SAVE: m => isString(m.domain) && Array.isArray(m.tags) &&
+        m.tags.every(tag => isObject(tag) && isString(tag.id) && tag.domain === m.domain),
+    TAG_REMOVE: m => isString(m.domain) && isString(m.id),
+    RECORD_VISIT: m => isVisit(m.visit),
+    GET_TAB_HISTORY: () => true,
+    CLEAR_TAB_HISTORY: () => true
+};
+
+function validate<T>(value: unknown, schemas: Record<string, (message: Record<string, unknown>) => boolean>): T {
+    if (!isObject(value) || !isString(value.type)) {
+        throw new MessageValidationError('Message must be an object with a string type');
+    }
+    // Own keys only, so types like "toString" or "__proto__" are not found on the prototype
+    if (!Object.hasOwn(schemas, value.type)) throw new MessageValidationError(`Unknown message type "${value.type}"`);
+    if (!schemas[value.type](value)) throw new MessageValidationError(`Invalid payload for ${value.type}`);
+    return value as T;
+}
+
+export function validateContentMessage(value: unknown): ContentMessage {
+    return validate<ContentMessage>(value, CONTENT_SCHEMAS);
+}
+
+export function validateBackgroundMessage(value: unknown): BackgroundMessage {
+    return validate<BackgroundMessage>(value, BACKGROUND_SCHEMAS);
+}
+
+/**
+ * Sends a request to the background service worker and unwraps its response.
+ * Rejects with the background's error message if the request failed there.
+ */
+export async function sendToBackground<M extends BackgroundMessage>(message: M): Promise<BackgroundResponses[M['type']]> {
+    validateBackgroundMessage(message);
+    const response = await chrome.runtime.sendMessage(message) as MessageResponse<BackgroundResponses[M['type']]> | undefined;
+    if (!response) throw new Error(`No response to ${message.type}`);
+    if (!response.ok) throw new Error(response.error);
+    return response.data;
+}
+
+/**
+ * Sends a message to a tab's content script. Rejects if no content script is listening.
+ */
+export async function sendToTab(tabId: number, message: ContentMessage): Promise<void> {
+    validateContentMessage(message);
+    await chrome.tabs.sendMessage(tabId, message);
+}
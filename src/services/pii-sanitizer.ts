@@ -0,0 +1,95 @@
+export type PIIDetectorType = 'email' | 'phone' | 'creditCard' | 'jwt' | 'ssn';
+
+export type PIIDetectorSettings = Record<PIIDetectorType, boolean>;
+
+export const PII_DETECTOR_LABELS: Record<PIIDetectorType, string> = {
+    email: 'Email address',
+    phone: 'Phone number',
+    creditCard: 'Credit card number',
+    jwt: 'JSON Web Token',
+    ssn: 'Social Security number'
+};
+
+// Stands in for personal data in anything that is stored or exported
+export const REDACTED = '[redacted]';
+
+export const DEFAULT_PII_SETTINGS: PIIDetectorSettings = {
+    email: true,
+    phone: true,
+    creditCard: true,
+    jwt: true,
+    ssn: true
+};
+
+/**
+ * Detects personal data in attribute values and URL parts so it never ends up in a selector or rule.
+ */
+export class PIISanitizer {
+    private settings: PIIDetectorSettings;
+
+    private detectors: Record<PIIDetectorType, (value: string) => boolean> = {
+        email: v => /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/i.test(v),
+        // Require separators or an international prefix so plain numeric IDs are not flagged
+        phone: v => /(?:^|[^\d])(?:\+\d{1,3}[\s.-]?)?\(?\d{3}\)?[\s.-]\d{3}[\s.-]\d{4}(?!\d)/.test(v) ||
+            /(?:^|[^\w])\+\d{10,14}(?!\d)/.test(v),
+        creditCard: v => (v.match(/(?:\d[ -]?){12,18}\d/g) || []).some(m => this.passesLuhn(m.replace(/\D/g, ''))),
+        jwt: v => /eyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]*/.test(v),
+        ssn: v => /(?:^|[^\d-])\d{3}-\d{2}-\d{4}(?![\d-])/.test(v)
+    };
+
+    constructor(settings: PIIDetectorSettings = DEFAULT_PII_SETTINGS) {
+        this.settings = { ...settings };
+    }
+
+    public setSettings(settings: Partial<PIIDetectorSettings>) {
+        this.settings = { ...this.settings, ...settings };
+    }
+
+    public getSettings(): PIIDetectorSettings {
+        return { ...this.settings };
+    }
+
+    /**
+     * Returns the first enabled detector that matches the value, or null if the value looks clean.
+     */
+    public detect(value: string): PIIDetectorType | null {
+        if (!value) return null;
+        const candidates = [value, this.safeDecode(value)];
+
+        for (const type of Object.keys(this.detectors) as PIIDetectorType[]) {
+            if (!this.settings[type]) continue;
+            if (candidates.some(v => this.detectors[type](v))) return type;
+        }
+        return null;
+    }
+
+    /**
+     * Builds the warning text shown on chips, or undefined if the value is clean.
+     */
+    public getWarning(value: string): string | undefined {
+        const type = this.detect(value);
+        return type ? `${PII_DETECTOR_LABELS[type]} detected (PII)` : undefined;
+    }
+
+    private passesLuhn(digits: string): boolean {
+        if (digits.length < 13 || digits.length > 19) return false;
+        let sum = 0;
+        for (let i = 0; i < digits.length; i++) {
+            let digit = Number(digits[digits.length - 1 - i]);
+            if (i % 2 === 1) {
+                digit *= 2;
+                if (digit > 9) digit -= 9;
+            }
+            sum += digit;
+        }
+        return sum % 10 === 0;
+    }
+
+    private safeDecode(value: string): string {
+        try {
+            return decodeURIComponent(value.replace(/\+/g, ' '));
+        } catch {
+            return value;
+        }
+    }
+}
@@ -0,0 +1,89 @@
+export type QueryParamListType = 'exclude' | 'wildcard';
+
+export interface QueryParamPresets {
+    // Parameter names (a trailing * matches any suffix) per domain
+    exclude: Record<string, string[]>;
+    wildcard: Record<string, string[]>;
+}
+
+export const DEFAULT_QUERY_PARAM_PRESETS: QueryParamPresets = {
+    exclude: {},
+    wildcard: {}
+};
+
+// Marketing / analytics parameters that never identify a page
+export const TRACKING_PARAMS = ['utm_*', 'gclid', 'fbclid', 'msclkid', '_ga', 'mc_eid', 'ref'];
+
+export interface QueryParamClassification {
+    type: 'exact' | 'wildcard' | 'exclude';
+    reason: string;
+}
+
+/**
+ * Picks the default treatment of a query parameter and explains why, so the Page Tagging tab
+ * can show where each default came from.
+ */
+export class QueryParamClassifier {
+    private presets: QueryParamPresets;
+
+    constructor(presets: QueryParamPresets = DEFAULT_QUERY_PARAM_PRESETS) {
+        this.presets = structuredClone(presets);
+    }
+
+    public setPresets(presets: QueryParamPresets) {
+        this.presets = structuredClone(presets);
+    }
+
+    public getPresets(): QueryParamPresets {
+        return structuredClone(this.presets);
+    }
+
+    public getList(type: QueryParamListType, domain: string): string[] {
+        return [...(this.presets[type][domain] ?? [])];
+    }
+
+    /**
+     * Adds a parameter name to a domain's list, removing it from the other list.
+     */
+    public addToList(type: QueryParamListType, domain: string, key: string) {
+        const other: QueryParamListType = type === 'exclude' ? 'wildcard' : 'exclude';
+        this.removeFromList(other, domain, key);
+        const current = this.getList(type, domain);
+        if (!current.includes(key)) {
+            this.presets[type] = { ...this.presets[type], [domain]: [...current, key] };
+        }
+    }
+
+    public removeFromList(type: QueryParamListType, domain: string, key: string) {
+        const current = this.getList(type, domain);
+        if (!current.includes(key)) return;
+        this.presets[type] = { ...this.presets[type], [domain]: current.filter(k => k !== key) };
+    }
+
+    /**
+     * User lists win over built-in knowledge; PII and detected IDs are never matched exactly.
+     */
+    public classify(key: string, domain: string, context: { piiWarning?: string; detector?: string } = {}): QueryParamClassification {
+        const excluded = this.findMatch(this.getList('exclude', domain), key);
+        if (excluded) return { type: 'exclude', reason: `In the exclude list for ${domain} (${excluded})` };
+
+        const wildcarded = this.findMatch(this.getList('wildcard', domain), key);
+        if (wildcarded) return { type: 'wildcard', reason: `In the any-value list for ${domain} (${wildcarded})` };
+
+        const tracking = this.findMatch(TRACKING_PARAMS, key);
+        if (tracking) return { type: 'exclude', reason: `Tracking parameter (${tracking})` };
+
+        if (context.piiWarning) return { type: 'wildcard', reason: context.piiWarning };
+        if (context.detector) return { type: 'wildcard', reason: `Dynamic value (${context.detector})` };
+
+        return { type: 'exact', reason: 'Static value' };
+    }
+
+    private findMatch(patterns: string[], key: string): string | undefined {
+        const lowerKey = key.toLowerCase();
+        return patterns.find(pattern => {
+            const lower = pattern.toLowerCase();
+            return lower.endsWith('*') ? lowerKey.startsWith(lower.slice(0, -1)) : lowerKey === lower;
+        });
+    }
+}
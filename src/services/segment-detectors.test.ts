@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { DetectorRegistry } from './segment-detectors';
+
+describe('DetectorRegistry', () => {
+    it('gives custom detectors added in the same millisecond distinct ids', () => {
+        const registry = new DetectorRegistry();
+        const first = registry.addCustom('Order', '^ord_\\d+$');
+        const second = registry.addCustom('Invoice', '^inv_\\d+$');
+
+        expect(first.id).not.toBe(second.id);
+        registry.removeCustom(first.id);
+        expect(registry.list().filter(d => !d.builtIn).map(d => d.name)).toEqual(['Invoice']);
+    });
+
+    it('ignores the g and y flags so detection does not depend on earlier calls', () => {
+        const registry = new DetectorRegistry();
+        registry.addCustom('Order', 'ord_\\d+', 'gi');
+        registry.setSettings({
+            ...registry.getSettings(),
+            custom: [...registry.getSettings().custom, { id: 'custom-stored', name: 'Stored', pattern: 'inv_\\d+', flags: 'y' }]
+        });
+
+        expect(registry.getSettings().custom[0].flags).toBe('i');
+        for (let i = 0; i < 3; i++) {
+            expect(registry.detect('ord_42', 'app.example.com')?.name).toBe('Order');
+            expect(registry.detect('inv_7', 'app.example.com')?.name).toBe('Stored');
+        }
+    });
+});
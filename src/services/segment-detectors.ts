@@ -0,0 +1,132 @@
+export interface SegmentDetector {
+    id: string;
+    name: string;
+    pattern: RegExp;
+    builtIn: boolean;
+}
+
+// Custom detectors as stored in chrome.storage (RegExp does not survive serialization)
+export interface CustomDetectorDefinition {
+    id: string;
+    name: string;
+    pattern: string;
+    flags?: string;
+}
+
+export interface DetectorSettings {
+    custom: CustomDetectorDefinition[];
+    // Enabled detector ids per domain; domains without an entry use every detector
+    enabledByDomain: Record<string, string[]>;
+}
+
+/**
+ * Drops the g and y flags: they make RegExp.test remember lastIndex, so a shared pattern would
+ * alternate between matching and not matching the same value.
+ */
+function statelessFlags(flags: string): string {
+    return flags.replace(/[gy]/g, '');
+}
+
+export const DEFAULT_DETECTOR_SETTINGS: DetectorSettings = {
+    custom: [],
+    enabledByDomain: {}
+};
+
+// Order matters: the first matching detector names the segment, so specific formats come before generic ones
+export const BUILT_IN_DETECTORS: SegmentDetector[] = [
+    { id: 'uuid', name: 'UUID', pattern: /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/i, builtIn: true },
+    { id: 'ulid', name: 'ULID', pattern: /^[0-9A-HJKMNP-TV-Z]{26}$/i, builtIn: true },
+    { id: 'hash', name: 'Hash', pattern: /^(?:[0-9a-f]{32}|[0-9a-f]{40}|[0-9a-f]{64})$/i, builtIn: true },
+    { id: 'objectId', name: 'ObjectId', pattern: /[0-9a-f]{24}/i, builtIn: true },
+    { id: 'date', name: 'Date', pattern: /^\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/, builtIn: true },
+    { id: 'snowflake', name: 'Snowflake ID', pattern: /^\d{17,20}$/, builtIn: true },
+    { id: 'numeric', name: 'Number', pattern: /^\d+$/, builtIn: true },
+    { id: 'locale', name: 'Locale', pattern: /^[a-z]{2}[-_](?:[a-z]{2}|\d{3})$/i, builtIn: true },
+    { id: 'email', name: 'Email', pattern: /^[^@/\s]+@[^@/\s]+\.[a-z]{2,}$/i, builtIn: true },
+    { id: 'base64', name: 'Token', pattern: /[A-Za-z0-9_-]{20,}/, builtIn: true }
+];
+
+/**
+ * Decides which URL values are dynamic (IDs, dates, locales...) and should default to wildcards.
+ * Holds the built-in detectors plus user-defined regex detectors, each of which can be turned off per domain.
+ */
+export class DetectorRegistry {
+    private settings: DetectorSettings;
+    private custom: SegmentDetector[] = [];
+
+    constructor(settings: DetectorSettings = DEFAULT_DETECTOR_SETTINGS) {
+        this.settings = structuredClone(settings);
+        this.custom = this.compile(this.settings.custom);
+    }
+
+    public setSettings(settings: DetectorSettings) {
+        this.settings = structuredClone(settings);
+        this.custom = this.compile(this.settings.custom);
+    }
+
+    public getSettings(): DetectorSettings {
+        return structuredClone(this.settings);
+    }
+
+    public list(): SegmentDetector[] {
+        return [...BUILT_IN_DETECTORS, ...this.custom];
+    }
+
+    public isEnabled(id: string, domain: string): boolean {
+        const enabled = this.settings.enabledByDomain[domain];
+        return !enabled || enabled.includes(id);
+    }
+
+    public setEnabled(id: string, domain: string, enabled: boolean) {
+        const current = this.settings.enabledByDomain[domain] ?? this.list().map(d => d.id);
+        const next = enabled ? Array.from(new Set([...current, id])) : current.filter(other => other !== id);
+        this.settings.enabledByDomain = { ...this.settings.enabledByDomain, [domain]: next };
+    }
+
+    /**
+     * Adds a named regex detector. Throws if the pattern is not a valid regular expression.
+     * The g and y flags are ignored.
+     */
+    public addCustom(name: string, pattern: string, flags = 'i'): SegmentDetector {
+        flags = statelessFlags(flags);
+        const detector: SegmentDetector = {
+            id: `custom-${crypto.randomUUID()}`,
+            name,
+            pattern: new RegExp(pattern, flags),
+            builtIn: false
+        };
+        this.settings.custom = [...this.settings.custom, { id: detector.id, name, pattern, flags }];
+        this.custom = [...this.custom, detector];
+
+        // Domains with an explicit list would otherwise never see the new detector
+        Object.keys(this.settings.enabledByDomain).forEach(domain => this.setEnabled(detector.id, domain, true));
+        return detector;
+    }
+
+    public removeCustom(id: string) {
+        this.settings.custom = this.settings.custom.filter(d => d.id !== id);
+        this.custom = this.custom.filter(d => d.id !== id);
+        Object.keys(this.settings.enabledByDomain).forEach(domain => this.setEnabled(id, domain, false));
+    }
+
+    /**
+     * Returns the first enabled detector that matches the value, or null if it looks static.
+     * Custom detectors run first so they can claim values a built-in would label differently.
+     */
+    public detect(value: string, domain: string): SegmentDetector | null {
+        if (!value) return null;
+        const detectors = [...this.custom, ...BUILT_IN_DETECTORS];
+        return detectors.find(d => this.isEnabled(d.id, domain) && d.pattern.test(value)) ?? null;
+    }
+
+    private compile(definitions: CustomDetectorDefinition[]): SegmentDetector[] {
+        return definitions.flatMap(def => {
+            try {
+                return [{ id: def.id, name: def.name, pattern: new RegExp(def.pattern, statelessFlags(def.flags ?? 'i')), builtIn: false }];
+            } catch {
+                // A pattern that no longer compiles (edited storage) is skipped rather than breaking analysis
+                return [];
+            }
+        });
+    }
+}
@@ -0,0 +1,29 @@
+import { bench, describe } from 'vitest';
+import { SelectorEngine } from './selector-engine';
+import { mountDesignSystemPage } from '../test/fixtures';
+
+// Run with `npm run bench`; compares the full-scan deep query with the indexed and cached paths
+describe('deep query on a design-system page (300 cards, 5 shadow levels)', () => {
+    mountDesignSystemPage({ components: 300, depth: 5 });
+
+    const selector = 'ds-card::shadow ds-layer::shadow ds-layer::shadow ds-layer::shadow ds-layer::shadow button[data-testid="action-150"]';
+    const plain = new SelectorEngine();
+    const indexed = new SelectorEngine();
+    indexed.enableShadowRootIndex();
+    let tick = 0;
+
+    // Each changing run touches the DOM first, so the indexed engine cannot answer from its cache
+    bench('full scan', () => {
+        document.body.setAttribute('data-tick', String(tick++));
+        plain.queryPendoSelector(selector);
+    });
+
+    bench('shadow root index, after a DOM change', () => {
+        document.body.setAttribute('data-tick', String(tick++));
+        indexed.queryPendoSelector(selector);
+    });
+
+    bench('shadow root index, cached', () => {
+        indexed.queryPendoSelector(selector);
+    });
+});
@@ -0,0 +1,214 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SelectorEngine, ElementNode, ElementIdentifier } from './selector-engine';
+import { UI_MARKER_ATTRIBUTE } from './dom-utils';
+import {
+    resetPage,
+    mountStandardPage,
+    mountShadowComponent,
+    mountNestedShadow,
+    mountSlottedContent,
+    mountClosedShadow,
+    mountDynamicIds,
+    mountModal,
+    mountAppContainer
+} from '../test/fixtures';
+
+function identifier(node: ElementNode, type: ElementIdentifier['type'], value?: string): ElementIdentifier {
+    const found = node.identifiers.find(ident => ident.type === type && (value === undefined || ident.value === value));
+    if (!found) throw new Error(`No ${type} identifier ${value ?? ''} on <${node.tagName}>`);
+    return found;
+}
+
+describe('SelectorEngine', () => {
+    let engine: SelectorEngine;
+
+    beforeEach(() => {
+        engine = new SelectorEngine();
+    });
+
+    afterEach(() => {
+        resetPage();
+        vi.unstubAllGlobals();
+    });
+
+    const expectSelector = (path: ElementNode[], expected: string, target: Element) => {
+        const selector = engine.generateSelectorFromPath(path);
+        expect(selector).toBe(expected);
+        expect(engine.queryPendoSelector(selector)).toEqual([target]);
+    };
+
+    describe('feature tagging scenarios (PRD A.1)', () => {
+        it('DOM-001: standard element', () => {
+            const { main } = mountStandardPage();
+            expectSelector(engine.buildPath(main), '#main-content', main);
+        });
+
+        it('DOM-002: shadow host wrapper', () => {
+            const { host } = mountShadowComponent();
+            expectSelector(engine.buildPath(host), 'my-component', host);
+        });
+
+        it('DOM-003: element inside an open shadow root', () => {
+            const { save } = mountShadowComponent();
+            const path = engine.buildPath(save);
+
+            expect(path[1].tagName).toBe('my-component');
+            expect(path[1].isShadowBoundary).toBe(true);
+            expectSelector(path, 'my-component::shadow #save', save);
+        });
+
+        it('DOM-004: three levels of nested shadow roots', () => {
+            const { link } = mountNestedShadow();
+            expectSelector(engine.buildPath(link), 'app-shell::shadow side-nav::shadow item-link', link);
+        });
+
+        it('DOM-005: slotted content defaults to its light DOM selector', () => {
+            const { title } = mountSlottedContent();
+            const path = engine.buildPath(title);
+
+            expect(path[0].assignedSlotName).toBe('title');
+            expect(path.some(node => node.isShadowBoundary)).toBe(false);
+            expectSelector(path, '#header-title', title);
+
+            const slotPath = engine.buildPath(title, { slotMode: 'slot' });
+            expectSelector(slotPath, 'page-header::shadow slot[name="title"]', engine.getSlotContainer(title)!);
+        });
+
+        it('DOM-006: closed shadow root selects the host only', () => {
+            const { host, root } = mountClosedShadow();
+            // Content scripts see closed roots through chrome.dom
+            vi.stubGlobal('chrome', { dom: { openOrClosedShadowRoot: (el: HTMLElement) => el === host ? root : null } });
+
+            const path = engine.buildPath(host);
+            expect(path[0].hasClosedShadowRoot).toBe(true);
+            expectSelector(path, 'closed-component', host);
+            expect(engine.queryPendoSelector('closed-component::shadow button.inner')).toEqual([]);
+        });
+
+        it('DOM-007: duplicate ids are flagged as not unique', () => {
+            const { row } = mountDynamicIds();
+            const id = identifier(engine.buildPath(row)[0], 'id');
+
+            expect(id.warning).toContain('ID is not unique');
+            expect(engine.queryPendoSelector('#row')).toHaveLength(2);
+        });
+    });
+
+    describe('interactive builder scenarios (PRD C)', () => {
+        it('SEL-001: including the parent adds it to the selector', () => {
+            const { button } = mountStandardPage();
+            const path = engine.buildPath(button);
+            path[0].identifiers.forEach(ident => ident.enabled = ident.type === 'tag');
+
+            path[1].included = true;
+            expectSelector(path, 'div button', button);
+        });
+
+        it('SEL-002: toggling the ID chip on', () => {
+            const { button } = mountStandardPage();
+            const path = engine.buildPath(button);
+            const id = identifier(path[0], 'id');
+
+            id.enabled = false;
+            expect(engine.generateSelectorFromPath(path)).toBe('button');
+            id.enabled = true;
+            expectSelector(path, '#nested-button', button);
+        });
+
+        it('SEL-003: toggling multiple class chips', () => {
+            const { button } = mountStandardPage();
+            const path = engine.buildPath(button);
+            identifier(path[0], 'id').enabled = false;
+
+            identifier(path[0], 'class', 'primary').enabled = true;
+            identifier(path[0], 'class', 'large').enabled = true;
+            expectSelector(path, 'button.primary.large', button);
+        });
+
+        it('SEL-004: a data-testid attribute is used by default', () => {
+            const { submit } = mountShadowComponent();
+            submit.setAttribute('data-testid', 'submit-button');
+            const path = engine.buildPath(submit);
+
+            expect(identifier(path[0], 'data-attr').enabled).toBe(true);
+            expect(engine.generateSelectorFromPath(path)).toContain('[data-testid="submit-button"]');
+        });
+
+        it('SEL-005: shadow host combined with class and attribute chips', () => {
+            const { submit } = mountShadowComponent();
+            const path = engine.buildPath(submit);
+
+            identifier(path[0], 'class', 'primary').enabled = true;
+            expectSelector(path, 'my-component::shadow button.primary[aria-label="Submit"]', submit);
+        });
+
+        it('SEL-006: deselecting every chip leaves no selector', () => {
+            const { button } = mountStandardPage();
+            const path = engine.buildPath(button);
+            path[0].identifiers.forEach(ident => ident.enabled = false);
+
+            expect(engine.generateSelectorFromPath(path)).toBe('');
+            expect(engine.queryPendoSelector('')).toEqual([]);
+        });
+
+        it('SEL-007: dynamic ids are flagged and not auto-selected', () => {
+            const { generated } = mountDynamicIds();
+            const id = identifier(engine.buildPath(generated)[0], 'id');
+
+            expect(id.warning).toContain('Dynamic ID detected');
+            expect(id.enabled).toBe(false);
+        });
+
+        it('SEL-008: generic element anchored to a unique container', () => {
+            const { lightButton } = mountModal();
+            const path = engine.buildPath(lightButton);
+            identifier(path[0], 'tag').enabled = false;
+            identifier(path[0], 'data-attr').enabled = true;
+
+            const modalIndex = path.findIndex(node => node.element?.id === 'modal-dialog');
+            path[modalIndex].included = true;
+            expectSelector(path, '#modal-dialog [data-locator="button-ok"]', lightButton);
+        });
+
+        it('SEL-009: skipping intermediate ancestors', () => {
+            const { button } = mountStandardPage();
+            const path = engine.buildPath(button);
+            path[0].identifiers.forEach(ident => ident.enabled = ident.type === 'tag');
+
+            expect(path[2].element?.id).toBe('container');
+            path[2].included = true;
+            expectSelector(path, '#container button', button);
+        });
+
+        it('SEL-010: shadow DOM child anchored to a light DOM container', () => {
+            const { shadowButton } = mountModal();
+            const path = engine.buildPath(shadowButton);
+            identifier(path[0], 'tag').enabled = false;
+            identifier(path[0], 'data-attr').enabled = true;
+
+            const modalIndex = path.findIndex(node => node.element?.id === 'modal-dialog');
+            path[modalIndex].included = true;
+            expectSelector(path, '#modal-dialog ok-button::shadow [data-locator="button-ok"]', shadowButton);
+        });
+
+        it('SEL-011: nested shadow DOM anchored to a light DOM grandparent', () => {
+            const { button } = mountAppContainer();
+            const path = engine.buildPath(button);
+
+            const containerIndex = path.findIndex(node => node.element?.id === 'app-container');
+            path[containerIndex].included = true;
+            expectSelector(path, '#app-container outer-component::shadow inner-component::shadow button', button);
+        });
+    });
+
+    it('does not search the extension overlay when scoring candidates', () => {
+        const { save } = mountShadowComponent();
+        const overlay = document.createElement('div');
+        overlay.setAttribute(UI_MARKER_ATTRIBUTE, '');
+        overlay.attachShadow({ mode: 'open' }).innerHTML = '<button id="save">Save tag</button>';
+        document.body.appendChild(overlay);
+
+        expect(engine.queryPendoSelector('#save')).toEqual([save]);
+        expect(engine.getSelector(save)).toBe('my-component::shadow #save');
+    });
+});
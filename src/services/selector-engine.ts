@@ -1,3 +1,7 @@
+import { PIISanitizer, REDACTED } from './pii-sanitizer';
+import { isElementNode, isShadowRootNode, isExtensionUi } from './dom-utils';
+import { ShadowRootIndex } from './shadow-root-index';
+
 export interface SelectorResult {
     selector: string;
     score: number;
@@ -5,6 +9,15 @@ export interface SelectorResult {
     depth: number;
 }
 
+export type CandidateStrategy = 'priority-attr' | 'id' | 'class' | 'ancestor-anchored' | 'nth-of-type';
+
+export interface SelectorCandidate extends SelectorResult {
+    strategy: CandidateStrategy;
+    matchCount: number;
+    notes: string[];       // Human-readable scoring factors, e.g. "Unique match"
+    path: ElementNode[];   // Builder path that produces this selector
+}
+
 export interface SelectorOptions {
     priorityAttributes: string[];
     prioritizeIds: boolean;
@@ -16,14 +29,73 @@ export interface ElementIdentifier {
     selectorString: string;  // e.g., "button", "#submit", ".primary"
     enabled: boolean;        // User toggle state
     warning?: string;        // e.g., "Dynamic ID detected"
+    blocked?: boolean;       // Contains PII; never emitted in a selector
 }
 
 export interface ElementNode {
-    element: HTMLElement;
+    element: HTMLElement | null;  // null when restored from storage and not found on the page
     tagName: string;
     identifiers: ElementIdentifier[];
     isShadowBoundary: boolean;
     included: boolean;  // Whether this ancestor is included in selector
+    hasClosedShadowRoot?: boolean;  // Host of a closed root; the selector cannot go deeper
+    assignedSlotName?: string;      // Light DOM node projected into a <slot>; '' for the default slot
+}
+
+/**
+ * How often identifier values occur across a document and all of its open shadow roots.
+ * IDs are only unique per tree, so the same id can legitimately appear in many shadow roots.
+ */
+export interface UsageIndex {
+    elements: Element[];
+    ids: Map<string, number>;
+    attributes: Map<string, number>;  // Keyed by `name="value"`
+}
+
+export type SlotMode = 'light' | 'slot';
+
+/**
+ * Where a selector is resolved: a document (the page or a same-origin iframe), a shadow root,
+ * or an element such as a detached or server-side subtree.
+ */
+export type QueryRoot = Document | ShadowRoot | Element;
+
+export interface BuildPathOptions {
+    point?: { x: number; y: number };  // Click position, used for closed shadow root detection
+    slotMode?: SlotMode;               // 'light' (default) keeps slotted nodes in their light DOM tree
+}
+
+/**
+ * Storable form of an ElementNode (live element references cannot be persisted).
+ */
+export type SavedElementNode = Omit<ElementNode, 'element'>;
+
+/**
+ * Masks identifiers the PII filter blocked, so personal data never reaches storage or an export.
+ * Attribute names are kept; values, and any warning text that quotes them, are replaced.
+ */
+export function redactPath(path: SavedElementNode[]): SavedElementNode[] {
+    return path.map(node => {
+        const secrets = node.identifiers
+            .filter(ident => ident.blocked)
+            .map(ident => ident.value.match(/^[^=]+="(.*)"$/)?.[1] ?? ident.value)
+            .filter(Boolean);
+        const scrub = (text: string) => secrets.reduce((result, secret) => result.split(secret).join(REDACTED), text);
+
+        return {
+            ...node,
+            identifiers: node.identifiers.map(ident => {
+                if (!ident.blocked) return { ...ident, warning: ident.warning && scrub(ident.warning) };
+                const attr = ident.value.match(/^([^=]+)=/)?.[1];
+                return {
+                    ...ident,
+                    enabled: false,
+                    value: attr ? `${attr}="${REDACTED}"` : REDACTED,
+                    selectorString: attr ? `[${attr}]` : REDACTED
+                };
+            })
+        };
+    });
 }
 
 export interface SelectorBuilderState {
@@ -33,12 +105,19 @@ export interface SelectorBuilderState {
 
 export class SelectorEngine {
     public options: SelectorOptions;
+    private sanitizer: PIISanitizer;
+    private indexes: WeakMap<Document, ShadowRootIndex> | null = null;
 
     constructor(options: SelectorOptions = {
         priorityAttributes: ['data-testid', 'data-pendo-id', 'aria-label'],
         prioritizeIds: true
-    }) {
+    }, sanitizer: PIISanitizer = new PIISanitizer()) {
         this.options = options;
+        this.sanitizer = sanitizer;
+    }
+
+    public getSanitizer(): PIISanitizer {
+        return this.sanitizer;
     }
 
     public setOptions(options: Partial<SelectorOptions>) {
@@ -57,19 +136,20 @@ export class SelectorEngine {
         for (let i = 0; i < path.length; i++) {
             const node = path[i];
 
-            if (node instanceof ShadowRoot) {
+            if (isShadowRootNode(node)) {
                 isInsideShadow = true;
                 const host = path[i + 1] as HTMLElement;
                 const hostSelector = this.getBestBaseSelector(host);
                 selectorParts.unshift(hostSelector + '::shadow');
                 breadcrumbs.unshift('::shadow');
                 i++;
-            } else if (node instanceof HTMLElement) {
+            } else if (isElementNode(node)) {
                 const selector = this.getBestBaseSelector(node);
                 if (i === 0) {
                     selectorParts.push(selector);
                 }
-                breadcrumbs.unshift(node.tagName.toLowerCase() + (node.id ? `#${node.id}` : ''));
+                const showId = node.id && !this.sanitizer.detect(node.id);
+                breadcrumbs.unshift(node.tagName.toLowerCase() + (showId ? `#${node.id}` : ''));
             }
         }
 
@@ -84,7 +164,7 @@ export class SelectorEngine {
         return this.getAnalysis(element).selector;
     }
 
-    public analyzeElement(element: HTMLElement): ElementIdentifier[] {
+    public analyzeElement(element: HTMLElement, usage: UsageIndex = this.buildUsageIndex(element.ownerDocument)): ElementIdentifier[] {
         const identifiers: ElementIdentifier[] = [];
 
         // Tag name (always included)
@@ -98,24 +178,37 @@ export class SelectorEngine {
         // ID
         if (element.id) {
             const isDynamic = this.isDynamicId(element.id);
+            const piiWarning = this.sanitizer.getWarning(element.id);
+            const uses = usage.ids.get(element.id) || 0;
+            const duplicateWarning = uses > 1 ? `ID is not unique (used by ${uses} elements)` : undefined;
             identifiers.push({
                 type: 'id',
                 value: element.id,
                 selectorString: `#${element.id}`,
-                enabled: !isDynamic,
-                warning: isDynamic ? 'Dynamic ID detected' : undefined
+                enabled: !isDynamic && !piiWarning,
+                warning: piiWarning || this.joinWarnings(isDynamic ? 'Dynamic ID detected' : undefined, duplicateWarning),
+                blocked: !!piiWarning
             });
         }
 
         // Classes
         const stableClasses = Array.from(element.classList)
             .filter(c => !this.isDynamicClass(c));
+        const classSetUses = stableClasses.length > 0
+            ? usage.elements.filter(el => stableClasses.every(c => el.classList.contains(c))).length
+            : 0;
+        const classSetWarning = classSetUses > 1
+            ? `Class set .${stableClasses.join('.')} is shared by ${classSetUses} elements`
+            : undefined;
         stableClasses.forEach(cls => {
+            const piiWarning = this.sanitizer.getWarning(cls);
             identifiers.push({
                 type: 'class',
                 value: cls,
                 selectorString: `.${cls}`,
-                enabled: false  // Not auto-selected
+                enabled: false,  // Not auto-selected
+                warning: piiWarning || classSetWarning,
+                blocked: !!piiWarning
             });
         });
 
@@ -123,11 +216,14 @@ export class SelectorEngine {
         Array.from(element.attributes)
             .filter(attr => attr.name.startsWith('data-'))
             .forEach(attr => {
+                const piiWarning = this.sanitizer.getWarning(attr.value);
                 identifiers.push({
                     type: 'data-attr',
                     value: `${attr.name}="${attr.value}"`,
                     selectorString: `[${attr.name}="${attr.value}"]`,
-                    enabled: this.options.priorityAttributes.includes(attr.name)
+                    enabled: !piiWarning && this.options.priorityAttributes.includes(attr.name),
+                    warning: piiWarning || this.getAttributeUsageWarning(usage, attr),
+                    blocked: !!piiWarning
                 });
             });
 
@@ -135,14 +231,28 @@ export class SelectorEngine {
         Array.from(element.attributes)
             .filter(attr => attr.name.startsWith('aria-'))
             .forEach(attr => {
+                const piiWarning = this.sanitizer.getWarning(attr.value);
                 identifiers.push({
                     type: 'aria-attr',
                     value: `${attr.name}="${attr.value}"`,
                     selectorString: `[${attr.name}="${attr.value}"]`,
-                    enabled: this.options.priorityAttributes.includes(attr.name)
+                    enabled: !piiWarning && this.options.priorityAttributes.includes(attr.name),
+                    warning: piiWarning || this.getAttributeUsageWarning(usage, attr),
+                    blocked: !!piiWarning
                 });
             });
 
+        // Slot name, so a slot container can be targeted as host::shadow slot[name=…]
+        if (element.tagName === 'SLOT') {
+            const name = element.getAttribute('name');
+            identifiers.push({
+                type: 'other-attr',
+                value: name ? `name="${name}"` : 'default slot',
+                selectorString: name ? `[name="${name}"]` : ':not([name])',
+                enabled: true
+            });
+        }
+
         // Position (fallback)
         const parent = element.parentElement;
         if (parent) {
@@ -163,30 +273,77 @@ export class SelectorEngine {
         return identifiers;
     }
 
-    public buildPath(element: HTMLElement): ElementNode[] {
+    /**
+     * Heuristically detects a closed shadow root on an element. Closed roots are invisible to page
+     * scripts (and to Pendo), so clicks inside them are retargeted to the host.
+     * @param point Client coordinates of the click, used to detect retargeting
+     */
+    public detectClosedShadowRoot(element: HTMLElement, point?: { x: number; y: number }): boolean {
+        if (element.shadowRoot) return false;
+
+        // Extension content scripts can see closed roots directly
+        if (typeof chrome !== 'undefined' && chrome.dom?.openOrClosedShadowRoot) {
+            return !!chrome.dom.openOrClosedShadowRoot(element);
+        }
+
+        // Only custom elements can host a shadow root we would not otherwise know about
+        if (!element.tagName.includes('-')) return false;
+
+        const rect = element.getBoundingClientRect();
+        if (rect.width === 0 || rect.height === 0) return false;
+
+        // Rendered box with no light DOM content: the visible content lives in a hidden tree
+        const lightChildren = Array.from(element.children);
+        if (lightChildren.length === 0 && !element.textContent?.trim()) return true;
+
+        // Click landed on the host but outside every light DOM child: it was retargeted
+        if (point) {
+            return !lightChildren.some(child => {
+                const r = child.getBoundingClientRect();
+                return point.x >= r.left && point.x <= r.right && point.y >= r.top && point.y <= r.bottom;
+            });
+        }
+
+        return false;
+    }
+
+    public buildPath(element: HTMLElement, options: BuildPathOptions = {}): ElementNode[] {
+        if (options.slotMode === 'slot') {
+            const slot = this.getSlotContainer(element);
+            if (slot) return this.buildPath(slot, { point: options.point });
+        }
+
         const composedPath = this.getComposedPath(element);
         const elementNodes: ElementNode[] = [];
+        const usage = this.buildUsageIndex(element.ownerDocument);
 
         for (let i = 0; i < composedPath.length; i++) {
             const node = composedPath[i];
 
-            if (node instanceof HTMLElement) {
-                if (node === document.documentElement) break;
+            if (isElementNode(node)) {
+                // Stop at the root of the element's own document (the iframe root for framed elements)
+                if (node === node.ownerDocument.documentElement) break;
 
                 // A node is a shadow boundary if the previous node in the composed path (closer to target)
                 // was a ShadowRoot.
-                const isShadowBoundary = i > 0 && composedPath[i - 1] instanceof ShadowRoot;
+                const isShadowBoundary = i > 0 && isShadowRootNode(composedPath[i - 1]);
 
                 elementNodes.push({
                     element: node,
                     tagName: node.tagName.toLowerCase(),
-                    identifiers: this.analyzeElement(node),
+                    identifiers: this.analyzeElement(node, usage),
                     isShadowBoundary: isShadowBoundary,
-                    included: elementNodes.length === 0
+                    included: elementNodes.length === 0,
+                    assignedSlotName: node.assignedSlot ? node.assignedSlot.name : undefined
                 });
             }
         }
 
+        // Only the target itself can be a closed host: anything inside one is retargeted to it
+        if (elementNodes.length > 0 && this.detectClosedShadowRoot(element, options.point)) {
+            elementNodes[0].hasClosedShadowRoot = true;
+        }
+
         return elementNodes;
     }
 
@@ -209,7 +366,7 @@ export class SelectorEngine {
         // 3. Generate selector parts for each node
         for (const idx of sortedIndices) {
             const node = path[idx];
-            const enabledIds = node.identifiers.filter(id => id.enabled);
+            const enabledIds = node.identifiers.filter(id => id.enabled && !id.blocked);
             let nodeSelector = '';
 
             const tag = enabledIds.find(id => id.type === 'tag');
@@ -249,27 +406,221 @@ export class SelectorEngine {
         return parts.join(' ');
     }
 
+    /**
+     * Returns the <slot> that the element (or its nearest slotted light DOM ancestor) is rendered in.
+     */
+    public getSlotContainer(element: HTMLElement): HTMLSlotElement | null {
+        let current: Node | null = element;
+        while (current && isElementNode(current)) {
+            if (current.assignedSlot) return current.assignedSlot;
+            current = current.parentNode;
+        }
+        return null;
+    }
+
+    public clonePath(path: ElementNode[]): ElementNode[] {
+        return path.map(node => ({
+            ...node,
+            identifiers: node.identifiers.map(ident => ({ ...ident }))
+        }));
+    }
+
+    /**
+     * Builds one candidate selector per strategy for the element and ranks them by score (0-100).
+     * Scores combine uniqueness (live match count), stability signals and selector length.
+     */
+    public generateCandidates(element: HTMLElement, root: QueryRoot = element.ownerDocument): SelectorCandidate[] {
+        const basePath = this.buildPath(element);
+        if (basePath.length === 0) return [];
+
+        const target = basePath[0].identifiers;
+        const candidates: SelectorCandidate[] = [];
+        const seen = new Set<string>();
+
+        const addCandidate = (strategy: CandidateStrategy, configure: (path: ElementNode[]) => boolean) => {
+            const path = this.clonePath(basePath);
+            path.forEach(node => node.included = false);
+            path[0].included = true;
+            path[0].identifiers.forEach(ident => ident.enabled = false);
+            if (!configure(path)) return;
+
+            const selector = this.generateSelectorFromPath(path);
+            if (!selector || seen.has(selector)) return;
+            seen.add(selector);
+
+            candidates.push(this.scoreCandidate(strategy, selector, path, element, root));
+        };
+
+        const enable = (path: ElementNode[], nodeIndex: number, match: (ident: ElementIdentifier) => boolean) => {
+            let found = false;
+            path[nodeIndex].identifiers.forEach(ident => {
+                if (!ident.blocked && match(ident)) {
+                    ident.enabled = true;
+                    found = true;
+                }
+            });
+            return found;
+        };
+
+        // 1. Priority attributes, one candidate each
+        target
+            .filter(ident => (ident.type === 'data-attr' || ident.type === 'aria-attr') && !ident.blocked &&
+                this.options.priorityAttributes.some(attr => ident.value.startsWith(`${attr}=`)))
+            .forEach(attrIdent => addCandidate('priority-attr', path =>
+                enable(path, 0, ident => ident.selectorString === attrIdent.selectorString)));
+
+        // 2. ID
+        addCandidate('id', path => enable(path, 0, ident => ident.type === 'id'));
+
+        // 3. Tag + stable classes
+        addCandidate('class', path => {
+            if (!target.some(ident => ident.type === 'class' && !ident.blocked)) return false;
+            return enable(path, 0, ident => ident.type === 'tag' || ident.type === 'class');
+        });
+
+        // 4. Anchored to the nearest ancestor with a stable id or priority attribute in the same tree
+        addCandidate('ancestor-anchored', path => {
+            for (let i = 1; i < path.length; i++) {
+                const anchor = path[i].identifiers.find(ident => !ident.blocked && !ident.warning && (
+                    ident.type === 'id' ||
+                    ((ident.type === 'data-attr' || ident.type === 'aria-attr') &&
+                        this.options.priorityAttributes.some(attr => ident.value.startsWith(`${attr}=`)))
+                ));
+                if (anchor) {
+                    path[i].included = true;
+                    path[i].identifiers.forEach(ident => ident.enabled = ident === anchor);
+                    return enable(path, 0, ident => ident.type === 'tag' || ident.type === 'class');
+                }
+                // Stop at the first shadow host: anything above it is in a different tree
+                if (path[i].isShadowBoundary) break;
+            }
+            return false;
+        });
+
+        // 5. Structural fallback: tag + :nth-of-type under the parent
+        addCandidate('nth-of-type', path => {
+            if (!enable(path, 0, ident => ident.type === 'tag' || ident.type === 'position')) return false;
+            if (!path[0].identifiers.some(ident => ident.type === 'position' && ident.enabled)) return false;
+            if (path.length > 1) path[1].included = true;
+            return true;
+        });
+
+        return candidates.sort((a, b) => b.score - a.score);
+    }
+
+    private scoreCandidate(strategy: CandidateStrategy, selector: string, path: ElementNode[], element: HTMLElement, root: QueryRoot): SelectorCandidate {
+        const matches = this.queryPendoSelector(selector, root);
+        const depth = path.filter(node => node.isShadowBoundary).length;
+        const notes: string[] = [];
+        let score = 0;
+
+        if (!matches.includes(element)) {
+            notes.push('Does not match the selected element');
+        } else {
+            // Uniqueness: up to 50
+            if (matches.length === 1) {
+                score += 50;
+                notes.push('Unique match');
+            } else {
+                score += Math.max(0, 30 - (matches.length - 1) * 5);
+                notes.push(`Matches ${matches.length} elements`);
+            }
+
+            // Stability: up to 35, by strategy with penalties for fragile identifiers
+            const strategyScores: Record<CandidateStrategy, number> = {
+                'priority-attr': 35,
+                'id': 30,
+                'ancestor-anchored': 25,
+                'class': 20,
+                'nth-of-type': 10
+            };
+            let stability = strategyScores[strategy];
+            path.forEach(node => node.identifiers.filter(ident => ident.enabled).forEach(ident => {
+                if (ident.warning) {
+                    stability -= 20;
+                    notes.push(ident.warning);
+                }
+                if (ident.type === 'position') {
+                    notes.push('Depends on element order');
+                }
+            }));
+            score += Math.max(0, stability);
+
+            // Length: up to 15, shorter is easier to read and less coupled to structure
+            score += Math.max(0, 15 - Math.floor(selector.length / 10));
+        }
+
+        return {
+            selector,
+            score: Math.min(100, score),
+            isShadow: depth > 0,
+            depth,
+            strategy,
+            matchCount: matches.length,
+            notes,
+            path
+        };
+    }
+
+    public serializePath(path: ElementNode[]): SavedElementNode[] {
+        return redactPath(path.map(({ element, ...node }) => node));
+    }
+
+    /**
+     * Rebuilds a builder path from a saved one. If the saved selector still resolves on this page
+     * and the live path has the same shape, the live elements are re-attached so highlighting works.
+     */
+    public restorePath(saved: SavedElementNode[]): ElementNode[] {
+        const restored: ElementNode[] = saved.map(node => ({
+            ...node,
+            element: null,
+            identifiers: node.identifiers.map(ident => ({ ...ident }))
+        }));
+
+        const target = this.queryPendoSelector(this.generateSelectorFromPath(restored))[0];
+        if (!isElementNode(target)) return restored;
+
+        const livePath = this.buildPath(target);
+        const sameShape = livePath.length === restored.length &&
+            livePath.every((node, i) => node.tagName === restored[i].tagName);
+
+        if (sameShape) {
+            restored.forEach((node, i) => node.element = livePath[i].element);
+        }
+
+        return restored;
+    }
+
     /**
      * Queries for elements matching a Pendo selector, which may contain ::shadow.
+     * @param root Where to resolve the selector; defaults to the page document. Pass an iframe's document
+     * for iframe-relative selectors, or an element to search only within (and below) that element.
      */
-    public queryPendoSelector(selector: string): Element[] {
+    public queryPendoSelector(selector: string, root: QueryRoot = document): Element[] {
         if (!selector) return [];
 
         // Split by ::shadow and clean up segments
         const segments = selector.split('::shadow').map(s => s.trim()).filter(Boolean);
         if (segments.length === 0) return [];
 
+        const index = this.getIndex(root);
+        const cached = index?.getCachedResult(root, selector);
+        if (cached) return [...cached];
+
         // 1. Resolve the first segment across ALL shadow roots in the document
-        let currentMatches = this.queryAllDeep(document, segments[0]);
+        let currentMatches = this.queryAllDeep(root, segments[0], index, new Set());
 
         // 2. Resolve subsequent segments
         for (let i = 1; i < segments.length; i++) {
             const segment = segments[i];
             const nextMatches: Element[] = [];
+            // Matches often sit inside each other's shadow roots, so their reachable roots overlap
+            const queried = new Set<ShadowRoot>();
 
+            // PERMISSIVE: the match's light DOM is searched too, because ::shadow is sometimes used
+            // loosely to mean "descendant including boundary crossing"
             for (const el of currentMatches) {
-                const found = this.queryAllDeepInsideShadows(el, segment);
-                nextMatches.push(...found);
+                nextMatches.push(...this.queryAllDeep(el, segment, index, queried));
             }
 
             currentMatches = Array.from(new Set(nextMatches));
@@ -278,62 +629,78 @@ export class SelectorEngine {
             }
         }
 
-        return currentMatches;
+        index?.setCachedResult(root, selector, currentMatches);
+        return [...currentMatches];
     }
 
     /**
-     * Finds elements matching a selector within any shadow roots found at or below the given element.
+     * Serves deep queries from a per-document ShadowRootIndex and caches their results until the DOM changes,
+     * instead of scanning every element on each query. Only enable this where shadow roots attached to
+     * elements already in the page are announced with SHADOW_ROOT_ATTACHED_EVENT (the content scripts
+     * install a hook for it); roots attached to detached elements are found when those are inserted.
      */
-    private queryAllDeepInsideShadows(el: Element, selector: string): Element[] {
-        // PERMISSIVE: First, try to find the segment in the current element's light DOM
-        // because sometimes ::shadow is used loosely to mean "descendant including boundary crossing".
-        const results: Element[] = Array.from(el.querySelectorAll(selector));
-
-        // 1. Check if the element itself has a shadow root
-        if (el.shadowRoot) {
-            results.push(...this.queryAllDeep(el.shadowRoot, selector));
-        }
+    public enableShadowRootIndex() {
+        this.indexes ??= new WeakMap();
+    }
 
-        // 2. Check all descendants for shadow roots
-        const descendants = el.querySelectorAll('*');
-        for (const desc of Array.from(descendants)) {
-            if (desc.shadowRoot) {
-                results.push(...this.queryAllDeep(desc.shadowRoot, selector));
-            }
+    private getIndex(root: QueryRoot): ShadowRootIndex | null {
+        // Detached subtrees are not observed, so they are always scanned
+        if (!this.indexes || !root.isConnected) return null;
+        const doc = root.ownerDocument ?? root as Document;
+        let index = this.indexes.get(doc);
+        if (!index) {
+            index = new ShadowRootIndex(doc);
+            this.indexes.set(doc, index);
         }
-
-        return results;
+        return index;
     }
 
     /**
-     * Recursively searches through the entire DOM tree starting from root, 
-     * including piercing into all child shadow roots.
+     * Matches in the root and in every open shadow root reachable from it, however deeply nested.
+     * Roots in `queried` were already searched for this selector and are skipped; their matches are
+     * already in the caller's results.
      */
-    private queryAllDeep(root: Document | ShadowRoot, selector: string): Element[] {
-        let results: Element[] = Array.from(root.querySelectorAll(selector));
-
-        // Find all elements that have a shadowRoot to pierce further
-        const allElements = root.querySelectorAll('*');
-        for (const el of Array.from(allElements)) {
-            if (el.shadowRoot) {
-                results.push(...this.queryAllDeep(el.shadowRoot, selector));
-            }
+    private queryAllDeep(root: QueryRoot, selector: string, index: ShadowRootIndex | null, queried: Set<ShadowRoot>): Element[] {
+        const results: Element[] = Array.from(root.querySelectorAll(selector));
+        const shadowRoots = index ? index.rootsWithin(root) : this.collectShadowRoots(root);
+        for (const shadowRoot of shadowRoots) {
+            if (queried.has(shadowRoot)) continue;
+            queried.add(shadowRoot);
+            results.push(...Array.from(shadowRoot.querySelectorAll(selector)));
         }
-
         return Array.from(new Set(results));
     }
 
+    /**
+     * Finds the open shadow roots reachable from the root by visiting every element, for when there is no index.
+     */
+    private collectShadowRoots(root: QueryRoot, found: ShadowRoot[] = []): ShadowRoot[] {
+        const visit = (shadowRoot: ShadowRoot) => {
+            found.push(shadowRoot);
+            this.collectShadowRoots(shadowRoot, found);
+        };
+        // An element root's own shadow root is not among its descendants
+        if (isElementNode(root) && root.shadowRoot && !isExtensionUi(root)) visit(root.shadowRoot);
+        root.querySelectorAll('*').forEach(el => {
+            // The overlay's own controls must not count as matches
+            if (el.shadowRoot && !isExtensionUi(el)) visit(el.shadowRoot);
+        });
+        return found;
+    }
+
 
 
+    /**
+     * Walks from the element to the document, crossing shadow roots to their hosts. Slotted nodes
+     * stay in their light DOM tree rather than jumping into the slot they are rendered in.
+     */
     private getComposedPath(element: HTMLElement): Node[] {
         const path: Node[] = [];
         let current: Node | null = element;
 
         while (current) {
             path.push(current);
-            if (current instanceof HTMLElement && current.assignedSlot) {
-                current = current.assignedSlot;
-            } else if (current instanceof ShadowRoot) {
+            if (isShadowRootNode(current)) {
                 current = current.host;
             } else {
                 current = current.parentNode;
@@ -347,18 +714,18 @@ export class SelectorEngine {
         // 1. Custom priority attributes
         for (const attr of this.options.priorityAttributes) {
             const val = element.getAttribute(attr);
-            if (val) return `[${attr}="${val}"]`;
+            if (val && !this.sanitizer.detect(val)) return `[${attr}="${val}"]`;
         }
 
         // 2. IDs (check for dynamic patterns)
-        if (this.options.prioritizeIds && element.id && !this.isDynamicId(element.id)) {
+        if (this.options.prioritizeIds && element.id && !this.isDynamicId(element.id) && !this.sanitizer.detect(element.id)) {
             return `#${element.id}`;
         }
 
         // 3. Tag + Class (filter dynamic classes)
         const tagName = element.tagName.toLowerCase();
         const className = Array.from(element.classList)
-            .filter(c => !this.isDynamicClass(c))
+            .filter(c => !this.isDynamicClass(c) && !this.sanitizer.detect(c))
             .join('.');
 
         if (className) return `${tagName}.${className}`;
@@ -367,6 +734,41 @@ export class SelectorEngine {
         return tagName;
     }
 
+    /**
+     * Tallies ids and data-/aria- attribute values over the document and every open shadow root in one pass.
+     */
+    public buildUsageIndex(root: Document | ShadowRoot): UsageIndex {
+        const usage: UsageIndex = { elements: [], ids: new Map(), attributes: new Map() };
+
+        const visit = (scope: Document | ShadowRoot) => {
+            for (const el of Array.from(scope.querySelectorAll('*'))) {
+                if (isExtensionUi(el)) continue;
+                usage.elements.push(el);
+                if (el.id) usage.ids.set(el.id, (usage.ids.get(el.id) || 0) + 1);
+                for (const attr of Array.from(el.attributes)) {
+                    if (attr.name.startsWith('data-') || attr.name.startsWith('aria-')) {
+                        const key = `${attr.name}="${attr.value}"`;
+                        usage.attributes.set(key, (usage.attributes.get(key) || 0) + 1);
+                    }
+                }
+                if (el.shadowRoot) visit(el.shadowRoot);
+            }
+        };
+
+        visit(root);
+        return usage;
+    }
+
+    private getAttributeUsageWarning(usage: UsageIndex, attr: Attr): string | undefined {
+        const uses = usage.attributes.get(`${attr.name}="${attr.value}"`) || 0;
+        return uses > 1 ? `Shared by ${uses} elements` : undefined;
+    }
+
+    private joinWarnings(...warnings: (string | undefined)[]): string | undefined {
+        const present = warnings.filter(Boolean);
+        return present.length > 0 ? present.join('; ') : undefined;
+    }
+
     private isDynamicId(id: string): boolean {
         return /\d{5,}/.test(id) || /^[0-9a-f]{8,}/i.test(id);
     }
@@ -0,0 +1,38 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { SelectorWatcher, WatchReport } from './selector-watcher';
+import { SelectorEngine } from './selector-engine';
+import { SHADOW_ROOT_ATTACHED_EVENT } from './shadow-root-index';
+import { resetPage } from '../test/fixtures';
+
+describe('SelectorWatcher', () => {
+    let watcher: SelectorWatcher | null = null;
+
+    afterEach(() => {
+        watcher?.stop();
+        watcher = null;
+        resetPage();
+    });
+
+    const settle = () => new Promise(resolve => setTimeout(resolve, 150));
+
+    it('follows a shadow root attached to a host already in the page', async () => {
+        document.body.innerHTML = '<lazy-button></lazy-button>';
+        const host = document.querySelector('lazy-button')!;
+        const reports: WatchReport[] = [];
+        watcher = new SelectorWatcher(new SelectorEngine());
+        watcher.start('lazy-button::shadow button.save', document, report => reports.push(report));
+        expect(reports.at(-1)!.matchCount).toBe(0);
+
+        // What a custom element upgrade does; shadow-root-hook.ts reports the attach from the page
+        const root = host.attachShadow({ mode: 'open' });
+        host.dispatchEvent(new CustomEvent(SHADOW_ROOT_ATTACHED_EVENT, { bubbles: true, composed: true }));
+        await settle();
+
+        // Rendered later, inside the new root: only visible if that root is observed
+        root.innerHTML = '<button class="save">Save</button>';
+        await settle();
+
+        expect(reports.at(-1)!.matchCount).toBe(1);
+        expect(reports.at(-1)!.events.map(e => e.type)).toEqual(['target-restored']);
+    });
+});
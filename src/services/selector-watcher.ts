@@ -0,0 +1,260 @@
+import { SelectorEngine, QueryRoot } from './selector-engine';
+import { isElementNode, isExtensionUi } from './dom-utils';
+import { SHADOW_ROOT_ATTACHED_EVENT } from './shadow-root-index';
+
+export type WatchEventType =
+    | 'count-changed'
+    | 'target-lost'
+    | 'target-restored'
+    | 'target-duplicated'
+    | 'target-replaced'
+    | 'identifier-changed';
+
+export interface WatchEvent {
+    time: number;        // ms since the watch started
+    type: WatchEventType;
+    matchCount: number;
+    detail: string;
+}
+
+export type StabilityVerdict = 'stable' | 'flaky' | 'broken';
+
+export interface WatchReport {
+    selector: string;
+    startedAt: number;
+    duration: number;
+    evaluations: number;  // Number of times the selector was re-run
+    matchCount: number;
+    events: WatchEvent[];
+    verdict: StabilityVerdict;
+    summary: string;
+}
+
+const EVALUATION_DELAY_MS = 100;
+
+/**
+ * Re-runs a selector while the DOM mutates (including inside open shadow roots) and records
+ * how its matches change over time, to catch selectors that break when an SPA re-renders.
+ */
+export class SelectorWatcher {
+    private observer: MutationObserver | null = null;
+    private observedRoots = new WeakSet<Node>();
+    private selector = '';
+    private root: QueryRoot | null = null;
+    private startedAt = 0;
+    private evaluations = 0;
+    private events: WatchEvent[] = [];
+    private lastMatches: Element[] = [];
+    private lastSnapshot: Record<string, string> | null = null;
+    private pendingTimer: ReturnType<typeof setTimeout> | null = null;
+    private onUpdate?: (report: WatchReport, matches: Element[]) => void;
+    private doc: Document | null = null;
+    // Shadow roots attached to elements already in the page produce no mutation; shadow-root-hook.ts reports them
+    private onShadowRootAttached = (e: Event) => {
+        const host = e.composedPath()[0];
+        if (!isElementNode(host) || !host.shadowRoot || isExtensionUi(host)) return;
+        this.observeTree(host);
+        this.scheduleEvaluation();
+    };
+
+    constructor(private engine: SelectorEngine) { }
+
+    public isRunning(): boolean {
+        return this.observer !== null;
+    }
+
+    public start(selector: string, root: QueryRoot, onUpdate: (report: WatchReport, matches: Element[]) => void) {
+        this.stop();
+
+        this.selector = selector;
+        this.root = root;
+        this.onUpdate = onUpdate;
+        this.startedAt = Date.now();
+        this.evaluations = 0;
+        this.events = [];
+        this.observedRoots = new WeakSet<Node>();
+
+        this.lastMatches = this.engine.queryPendoSelector(selector, root);
+        this.lastSnapshot = this.lastMatches[0] ? this.snapshotIdentifiers(this.lastMatches[0]) : null;
+
+        this.observer = new MutationObserver(mutations => this.handleMutations(mutations));
+        // Added elements are covered by their parent's subtree observer, but an element root is not
+        this.observeTree(root, true);
+        this.doc = root.ownerDocument ?? (root as Document);
+        this.doc.addEventListener(SHADOW_ROOT_ATTACHED_EVENT, this.onShadowRootAttached, true);
+        this.notify();
+    }
+
+    /**
+     * Stops observing and returns the final report.
+     */
+    public stop(): WatchReport | null {
+        if (!this.observer) return null;
+
+        if (this.pendingTimer) {
+            clearTimeout(this.pendingTimer);
+            this.pendingTimer = null;
+            this.evaluate();
+        }
+
+        this.observer.disconnect();
+        this.observer = null;
+        this.doc?.removeEventListener(SHADOW_ROOT_ATTACHED_EVENT, this.onShadowRootAttached, true);
+        this.doc = null;
+        return this.getReport();
+    }
+
+    public getReport(): WatchReport {
+        const { verdict, summary } = this.getVerdict();
+        return {
+            selector: this.selector,
+            startedAt: this.startedAt,
+            duration: Date.now() - this.startedAt,
+            evaluations: this.evaluations,
+            matchCount: this.lastMatches.length,
+            events: [...this.events],
+            verdict,
+            summary
+        };
+    }
+
+    private handleMutations(allMutations: MutationRecord[]) {
+        // Highlight boxes and the overlay itself change constantly; they are not the page re-rendering
+        const mutations = allMutations.filter(mutation => !isExtensionUi(mutation.target));
+        if (mutations.length === 0) return;
+
+        // New subtrees may bring their own shadow roots, which a document-level observer cannot see into
+        mutations.forEach(mutation => {
+            mutation.addedNodes.forEach(node => {
+                if (isElementNode(node)) this.observeTree(node);
+            });
+        });
+
+        this.scheduleEvaluation();
+    }
+
+    /**
+     * Coalesces bursts of changes (a typical re-render) into a single evaluation.
+     */
+    private scheduleEvaluation() {
+        if (this.pendingTimer) clearTimeout(this.pendingTimer);
+        this.pendingTimer = setTimeout(() => {
+            this.pendingTimer = null;
+            this.evaluate();
+            this.notify();
+        }, EVALUATION_DELAY_MS);
+    }
+
+    private observeTree(node: Node, observeSelf = !isElementNode(node)) {
+        const observe = (target: Node) => {
+            if (this.observedRoots.has(target)) return;
+            this.observedRoots.add(target);
+            this.observer?.observe(target, { childList: true, subtree: true, attributes: true, characterData: true });
+        };
+
+        if (observeSelf) observe(node);
+
+        const scan = (el: Element) => {
+            if (el.shadowRoot) {
+                observe(el.shadowRoot);
+                el.shadowRoot.querySelectorAll('*').forEach(scan);
+            }
+        };
+
+        if (isElementNode(node)) scan(node);
+        (node as ParentNode).querySelectorAll('*').forEach(scan);
+    }
+
+    private evaluate() {
+        if (!this.root) return;
+        this.evaluations++;
+        const matches = this.engine.queryPendoSelector(this.selector, this.root);
+        const previous = this.lastMatches;
+
+        if (matches.length !== previous.length) {
+            if (matches.length === 0) {
+                this.record('target-lost', matches.length, 'Selector no longer matches any element');
+            } else if (previous.length === 0) {
+                this.record('target-restored', matches.length, `Selector matches again (${matches.length})`);
+            } else if (previous.length === 1 && matches.length > 1) {
+                this.record('target-duplicated', matches.length, `Target duplicated: now matches ${matches.length} elements`);
+            } else {
+                this.record('count-changed', matches.length, `Match count changed ${previous.length} → ${matches.length}`);
+            }
+        } else if (matches.length > 0 && matches[0] !== previous[0]) {
+            this.record('target-replaced', matches.length, 'Target element was re-rendered (new DOM node)');
+        }
+
+        if (matches[0]) {
+            const snapshot = this.snapshotIdentifiers(matches[0]);
+            if (this.lastSnapshot) {
+                this.diffSnapshots(this.lastSnapshot, snapshot).forEach(change => {
+                    this.record('identifier-changed', matches.length, change);
+                });
+            }
+            this.lastSnapshot = snapshot;
+        }
+
+        this.lastMatches = matches;
+    }
+
+    /**
+     * Captures the identifier values that selectors are typically built from.
+     */
+    private snapshotIdentifiers(element: Element): Record<string, string> {
+        const snapshot: Record<string, string> = {};
+        if (element.id) snapshot['id'] = element.id;
+        if (element.classList.length) snapshot['class'] = Array.from(element.classList).sort().join(' ');
+        Array.from(element.attributes)
+            .filter(attr => attr.name.startsWith('data-') || attr.name.startsWith('aria-'))
+            .forEach(attr => snapshot[attr.name] = attr.value);
+        return snapshot;
+    }
+
+    private diffSnapshots(before: Record<string, string>, after: Record<string, string>): string[] {
+        const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+        const changes: string[] = [];
+        keys.forEach(key => {
+            if (before[key] === after[key]) return;
+            if (before[key] === undefined) changes.push(`${key} added: "${after[key]}"`);
+            else if (after[key] === undefined) changes.push(`${key} removed (was "${before[key]}")`);
+            else changes.push(`${key} changed: "${before[key]}" → "${after[key]}"`);
+        });
+        return changes;
+    }
+
+    private record(type: WatchEventType, matchCount: number, detail: string) {
+        this.events.push({ time: Date.now() - this.startedAt, type, matchCount, detail });
+    }
+
+    private getVerdict(): { verdict: StabilityVerdict; summary: string } {
+        const count = this.lastMatches.length;
+        const countOf = (type: WatchEventType) => this.events.filter(e => e.type === type).length;
+
+        if (count === 0) {
+            return { verdict: 'broken', summary: 'The selector currently matches nothing.' };
+        }
+
+        const problems: string[] = [];
+        if (count > 1) problems.push(`matches ${count} elements`);
+        if (countOf('target-lost')) problems.push(`lost the target ${countOf('target-lost')}×`);
+        if (countOf('target-duplicated')) problems.push(`matched duplicates ${countOf('target-duplicated')}×`);
+        if (countOf('identifier-changed')) problems.push(`${countOf('identifier-changed')} identifier change(s) between renders`);
+
+        if (problems.length > 0) {
+            return { verdict: 'flaky', summary: `Selector ${problems.join(', ')}.` };
+        }
+
+        const rerenders = countOf('target-replaced');
+        return {
+            verdict: 'stable',
+            summary: rerenders > 0
+                ? `Held a single match across ${rerenders} re-render(s).`
+                : `Held a single match across ${this.evaluations} DOM update(s).`
+        };
+    }
+
+    private notify() {
+        this.onUpdate?.(this.getReport(), this.lastMatches);
+    }
+}
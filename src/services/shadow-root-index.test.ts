@@ -0,0 +1,127 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { ShadowRootIndex, SHADOW_ROOT_ATTACHED_EVENT } from './shadow-root-index';
+import { SelectorEngine } from './selector-engine';
+import { UI_MARKER_ATTRIBUTE } from './dom-utils';
+import { resetPage, mountNestedShadow, mountAppContainer, mountModal } from '../test/fixtures';
+
+describe('ShadowRootIndex', () => {
+    let index: ShadowRootIndex | null = null;
+
+    afterEach(() => {
+        index?.disconnect();
+        index = null;
+        resetPage();
+    });
+
+    const hostsOf = (roots: ShadowRoot[]) => roots.map(root => root.host.tagName.toLowerCase());
+
+    it('indexes nested open shadow roots present at creation', () => {
+        mountNestedShadow();
+        index = new ShadowRootIndex(document);
+        expect(hostsOf(index.rootsWithin(document))).toEqual(['app-shell', 'side-nav']);
+    });
+
+    it('limits roots to those reachable from an element scope', () => {
+        mountAppContainer();
+        index = new ShadowRootIndex(document);
+        const main = document.querySelector('main')!;
+        const outer = document.querySelector('outer-component')!;
+
+        expect(hostsOf(index.rootsWithin(main))).toEqual(['outer-component', 'inner-component']);
+        expect(hostsOf(index.rootsWithin(outer.shadowRoot!))).toEqual(['inner-component']);
+        expect(index.rootsWithin(outer.shadowRoot!.querySelector('inner-component')!.shadowRoot!)).toEqual([]);
+    });
+
+    it('picks up roots in inserted subtrees and drops removed ones without waiting for the observer', () => {
+        index = new ShadowRootIndex(document);
+        const host = document.createElement('late-widget');
+        host.attachShadow({ mode: 'open' }).innerHTML = '<span>late</span>';
+
+        document.body.appendChild(host);
+        expect(hostsOf(index.rootsWithin(document))).toEqual(['late-widget']);
+
+        host.remove();
+        expect(index.rootsWithin(document)).toEqual([]);
+    });
+
+    it('needs the attach event for roots attached to elements already in the page', () => {
+        index = new ShadowRootIndex(document);
+        const host = document.createElement('upgraded-widget');
+        document.body.appendChild(host);
+        expect(index.rootsWithin(document)).toEqual([]);
+
+        host.attachShadow({ mode: 'open' });
+        expect(index.rootsWithin(document)).toEqual([]);
+        host.dispatchEvent(new CustomEvent(SHADOW_ROOT_ATTACHED_EVENT, { bubbles: true, composed: true }));
+        expect(hostsOf(index.rootsWithin(document))).toEqual(['upgraded-widget']);
+    });
+
+    it('finds roots hosted in light DOM under another host, and refiles them when they move', () => {
+        document.body.innerHTML = '<x-dialog><p><x-field></x-field></p></x-dialog><aside></aside>';
+        const dialog = document.querySelector('x-dialog')!;
+        const field = document.querySelector('x-field')!;
+        dialog.attachShadow({ mode: 'open' }).innerHTML = '<slot></slot>';
+        field.attachShadow({ mode: 'open' }).innerHTML = '<input>';
+        index = new ShadowRootIndex(document);
+
+        expect(hostsOf(index.rootsWithin(dialog))).toEqual(['x-dialog', 'x-field']);
+        expect(hostsOf(index.rootsWithin(dialog.querySelector('p')!))).toEqual(['x-field']);
+
+        document.querySelector('aside')!.appendChild(field);
+        expect(hostsOf(index.rootsWithin(dialog))).toEqual(['x-dialog']);
+        expect(hostsOf(index.rootsWithin(document.querySelector('aside')!))).toEqual(['x-field']);
+        expect(hostsOf(index.rootsWithin(document))).toEqual(['x-dialog', 'x-field']);
+    });
+
+    it('refiles roots under a host whose own root is attached later', () => {
+        document.body.innerHTML = '<x-dialog><x-field></x-field></x-dialog>';
+        const dialog = document.querySelector('x-dialog')!;
+        document.querySelector('x-field')!.attachShadow({ mode: 'open' });
+        index = new ShadowRootIndex(document);
+
+        dialog.attachShadow({ mode: 'open' });
+        dialog.dispatchEvent(new CustomEvent(SHADOW_ROOT_ATTACHED_EVENT, { bubbles: true, composed: true }));
+        expect(hostsOf(index.rootsWithin(dialog))).toEqual(['x-dialog', 'x-field']);
+        expect(hostsOf(index.rootsWithin(document))).toEqual(['x-dialog', 'x-field']);
+    });
+
+    it('never indexes the extension UI', () => {
+        const addOverlay = () => {
+            const overlay = document.createElement('div');
+            overlay.setAttribute(UI_MARKER_ATTRIBUTE, '');
+            overlay.attachShadow({ mode: 'open' }).innerHTML = '<section>Overlay</section>';
+            document.body.appendChild(overlay);
+        };
+        addOverlay();
+        index = new ShadowRootIndex(document);
+        expect(index.rootsWithin(document)).toEqual([]);
+
+        addOverlay();
+        expect(index.rootsWithin(document)).toEqual([]);
+    });
+
+    it('serves cached results until the DOM changes', () => {
+        const { shadowButton } = mountModal();
+        const engine = new SelectorEngine();
+        engine.enableShadowRootIndex();
+        const selector = 'ok-button::shadow [data-locator="button-ok"]';
+
+        const first = engine.queryPendoSelector(selector);
+        expect(first).toEqual([shadowButton]);
+        expect(engine.queryPendoSelector(selector)).toEqual(first);
+
+        shadowButton.setAttribute('data-locator', 'button-renamed');
+        expect(engine.queryPendoSelector(selector)).toEqual([]);
+    });
+
+    it('gives the same results as a full scan', () => {
+        mountAppContainer();
+        const plain = new SelectorEngine();
+        const indexed = new SelectorEngine();
+        indexed.enableShadowRootIndex();
+
+        for (const selector of ['button', '#app-container outer-component::shadow inner-component::shadow button', 'main::shadow section', 'inner-component']) {
+            expect(indexed.queryPendoSelector(selector)).toEqual(plain.queryPendoSelector(selector));
+        }
+    });
+});
@@ -0,0 +1,196 @@
+import { isElementNode, isShadowRootNode, isExtensionUi } from './dom-utils';
+
+// Dispatched on the host by shadow-root-hook.ts from the page's MAIN world
+export const SHADOW_ROOT_ATTACHED_EVENT = 'shadow-tagger:shadowrootattached';
+
+type IndexedRoot = Document | ShadowRoot | Element;
+
+/**
+ * Keeps track of every open shadow root in a document, so deep queries visit known roots instead of
+ * scanning every element with querySelectorAll('*'). Also caches query results until the next DOM change.
+ *
+ * Roots are filed under their host's nearest ancestor host in the same tree (or the tree itself), so the
+ * roots below an element are found from that element's own container rather than by checking every root
+ * in its tree.
+ *
+ * A MutationObserver on the document and on each indexed root adds roots brought in by new subtrees and
+ * refiles moved ones; roots whose host left its tree are dropped when next read. Shadow roots attached to
+ * elements that are already in the page produce no mutation, so those are reported through
+ * SHADOW_ROOT_ATTACHED_EVENT. The extension's own UI is never indexed.
+ */
+export class ShadowRootIndex {
+    // Open shadow roots keyed by where their host lives: a tree (the document or a shadow root) for roots
+    // hosted at its top level, or the nearest ancestor host for roots hosted in that host's light DOM
+    private childRoots = new WeakMap<Node, Set<ShadowRoot>>();
+    private containers = new WeakMap<ShadowRoot, Node>();
+    private results = new WeakMap<IndexedRoot, Map<string, Element[]>>();
+    private observer: MutationObserver;
+    private onAttached = (e: Event) => this.addHost(e.composedPath()[0]);
+
+    constructor(private doc: Document) {
+        this.childRoots.set(doc, new Set());
+        this.observer = new MutationObserver(mutations => this.handleMutations(mutations));
+        this.observe(doc);
+        this.scan(doc);
+        doc.addEventListener(SHADOW_ROOT_ATTACHED_EVENT, this.onAttached, true);
+    }
+
+    /**
+     * Every open shadow root reachable from the scope: those hosted by the scope itself or one of its
+     * descendants, and the roots nested inside them.
+     */
+    public rootsWithin(scope: IndexedRoot): ShadowRoot[] {
+        this.flush();
+        const found: ShadowRoot[] = [];
+
+        const addNested = (root: ShadowRoot) => {
+            found.push(root);
+            this.liveChildren(root).forEach(addNested);
+            this.liveChildren(root.host).forEach(addNested);
+        };
+        if (!isElementNode(scope)) {
+            this.liveChildren(scope).forEach(addNested);
+        } else if (scope.shadowRoot && this.isLive(scope.shadowRoot)) {
+            // A host's root, and the roots under its light DOM, are filed under the host itself
+            addNested(scope.shadowRoot);
+        } else {
+            this.liveChildren(this.containerOf(scope)).forEach(root => {
+                if (scope.contains(root.host)) addNested(root);
+            });
+        }
+        return found;
+    }
+
+    public getCachedResult(scope: IndexedRoot, selector: string): Element[] | undefined {
+        this.flush();
+        return this.results.get(scope)?.get(selector);
+    }
+
+    public setCachedResult(scope: IndexedRoot, selector: string, result: Element[]) {
+        let bySelector = this.results.get(scope);
+        if (!bySelector) {
+            bySelector = new Map();
+            this.results.set(scope, bySelector);
+        }
+        bySelector.set(selector, result);
+    }
+
+    /**
+     * Indexes a shadow root attached after the index was built. Hosts outside the indexed document,
+     * or not yet connected, are picked up by the mutation observer once they are inserted.
+     */
+    public addHost(host: EventTarget | undefined) {
+        if (!isElementNode(host) || !host.shadowRoot || !host.isConnected || host.ownerDocument !== this.doc) return;
+        // Roots already indexed in the host's light DOM are refiled under it
+        this.scan(host);
+        this.invalidate();
+    }
+
+    public disconnect() {
+        this.observer.disconnect();
+        this.doc.removeEventListener(SHADOW_ROOT_ATTACHED_EVENT, this.onAttached, true);
+    }
+
+    /**
+     * Applies mutations that are still queued, so reads right after a DOM change in the same task are not stale.
+     */
+    private flush() {
+        const pending = this.observer.takeRecords();
+        if (pending.length > 0) this.handleMutations(pending);
+    }
+
+    private handleMutations(mutations: MutationRecord[]) {
+        // The extension's own highlight boxes and overlay change constantly without affecting page selectors
+        const relevant = mutations.filter(mutation => !isExtensionUi(mutation.target) && !(
+            mutation.type === 'childList' &&
+            [...Array.from(mutation.addedNodes), ...Array.from(mutation.removedNodes)].every(node => isExtensionUi(node))
+        ));
+        if (relevant.length === 0) return;
+
+        relevant.forEach(mutation => mutation.addedNodes.forEach(node => {
+            if (isElementNode(node)) this.scan(node);
+        }));
+        this.invalidate();
+    }
+
+    private invalidate() {
+        this.results = new WeakMap();
+    }
+
+    private scan(scope: IndexedRoot) {
+        if (isElementNode(scope) && scope.shadowRoot) this.register(scope.shadowRoot);
+        scope.querySelectorAll('*').forEach(el => {
+            if (el.shadowRoot) this.register(el.shadowRoot);
+        });
+    }
+
+    private register(root: ShadowRoot) {
+        const tree = root.host.getRootNode();
+        if (tree !== this.doc && !isShadowRootNode(tree)) return;  // Host is not in the page
+        if (isExtensionUi(root.host)) return;
+
+        if (!this.childRoots.has(tree)) {
+            // Host sits in a shadow root we have not seen yet; index that one first
+            if (!isShadowRootNode(tree)) return;
+            this.register(tree);
+            if (!this.childRoots.has(tree)) return;
+        }
+
+        const container = this.containerOf(root.host);
+        const previous = this.containers.get(root);
+        if (previous === container) return;
+        // Moved since it was filed, e.g. into another host's light DOM
+        if (previous) this.childRoots.get(previous)?.delete(root);
+
+        let siblings = this.childRoots.get(container);
+        if (!siblings) {
+            siblings = new Set();
+            this.childRoots.set(container, siblings);
+        }
+        siblings.add(root);
+        this.containers.set(root, container);
+        if (!this.childRoots.has(root)) {
+            this.childRoots.set(root, new Set());
+            this.observe(root);
+        }
+        this.scan(root);
+    }
+
+    /**
+     * The nearest ancestor of the element that hosts an indexed shadow root, or the element's tree if there is none.
+     */
+    private containerOf(element: Element): Node {
+        let current = element.parentNode;
+        while (current && isElementNode(current)) {
+            if (current.shadowRoot && this.containers.has(current.shadowRoot)) return current;
+            current = current.parentNode;
+        }
+        return current ?? element;
+    }
+
+    /**
+     * Roots filed under a container, dropping those whose host has since been removed or moved to another tree.
+     */
+    private liveChildren(container: Node): ShadowRoot[] {
+        const roots = this.childRoots.get(container);
+        if (!roots) return [];
+        roots.forEach(root => {
+            if (!this.isLive(root)) {
+                roots.delete(root);
+                this.containers.delete(root);
+            }
+        });
+        return Array.from(roots);
+    }
+
+    private isLive(root: ShadowRoot): boolean {
+        const container = this.containers.get(root);
+        if (!container || !root.host.isConnected) return false;
+        return root.host.getRootNode() === (isElementNode(container) ? container.getRootNode() : container);
+    }
+
+    private observe(target: Document | ShadowRoot) {
+        // Text changes cannot affect which elements a selector matches, so only structure and attributes are watched
+        this.observer.observe(target, { childList: true, subtree: true, attributes: true });
+    }
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { TagExporter } from './tag-exporter';
+import { TagStore } from './tag-store';
+import { SelectorEngine } from './selector-engine';
+import { URLProcessor } from './url-processor';
+import { mountShadowComponent } from '../test/fixtures';
+
+const DOMAIN = 'app.example.com';
+
+describe('TagExporter', () => {
+    const exporter = new TagExporter();
+    const store = new TagStore(`https://${DOMAIN}/settings`);
+
+    const importJSON = (tags: unknown[]) => exporter.parse(JSON.stringify({ format: 'shadow-tagger', version: 1, tags }), DOMAIN);
+    const feature = (extra: Record<string, unknown> = {}) => ({ name: 'Save', type: 'feature', rule: 'my-component::shadow #save', ...extra });
+
+    it('round-trips a feature tag with its builder path through JSON', () => {
+        const { save } = mountShadowComponent();
+        const engine = new SelectorEngine();
+        const live = engine.buildPath(save);
+        const path = engine.serializePath(live);
+        const tag = store.createFeatureTag('Save', '', engine.generateSelectorFromPath(live), path, 1);
+
+        const result = exporter.parse(exporter.toJSON([tag]), DOMAIN);
+        expect(result.errors).toEqual([]);
+        expect(result.tags[0]).toMatchObject({ kind: 'feature', name: 'Save', path: JSON.parse(JSON.stringify(path)) });
+    });
+
+    it('rejects builder state that is not a list of path nodes', () => {
+        const result = importJSON([
+            feature({ builderState: [1, 2] }),
+            feature({ name: 'Other', builderState: [{ tagName: 'button', identifiers: [{ type: 'id' }], isShadowBoundary: false, included: true }] })
+        ]);
+
+        expect(result.tags).toEqual([]);
+        expect(result.errors.map(e => e.message)).toEqual([
+            'Invalid builder state: node 1 needs a tagName and identifiers',
+            'Invalid builder state: node 1 has an invalid identifier (1)'
+        ]);
+    });
+
+    it('rejects malformed URL rule states and non-string descriptions', () => {
+        const result = importJSON([
+            { name: 'Pricing', type: 'page', rule: '//*/pricing', builderState: { includeDomain: false, domainWildcard: false, pathSegments: 'pricing' } },
+            feature({ pageRule: '//*/pricing', pageRuleState: [] }),
+            feature({ name: 'Described', description: 42 })
+        ]);
+
+        expect(result.errors.map(e => e.message)).toEqual([
+            'Invalid builder state: has invalid path segments',
+            'Invalid page rule state: must be a URL rule state',
+            'Description must be a string'
+        ]);
+    });
+
+    it('reports entries that repeat the name of an earlier entry in the same file', () => {
+        const result = importJSON([feature(), feature({ name: 'save', rule: '#save' }), { name: 'Save', type: 'page', rule: '//*/save' }]);
+
+        expect(result.tags.map(t => t.kind)).toEqual(['feature', 'page']);
+        expect(result.errors).toEqual([{ entry: 2, name: 'save', message: 'Same name as entry 1 in this file' }]);
+    });
+
+    it('guards CSV cells that a spreadsheet would run as formulas, and restores them on import', () => {
+        const tag = store.createPageTag('=HYPERLINK("https://evil.example")', "'@quoted", '//*/pricing', {
+            includeDomain: false, domainWildcard: false, pathSegments: [], queryParams: [], hashComponents: []
+        });
+        const csv = exporter.toCSV([tag]);
+
+        expect(csv.split('\r\n')[1]).toMatch(/^"'=HYPERLINK\(""https:\/\/evil\.example""\)",page,\/\/\*\/pricing,.*,''@quoted,/);
+        expect(exporter.parse(csv, DOMAIN).tags[0]).toMatchObject({ name: tag.name, description: tag.description });
+    });
+
+    it('exports no value the PII filter flagged, from builder paths or rule states', () => {
+        document.body.innerHTML = '<button id="jane.doe@example.com" data-owner="jane.doe@example.com" class="jane.doe@example.com primary">Mail</button>';
+        const engine = new SelectorEngine();
+        const live = engine.buildPath(document.querySelector('button')!);
+        const processor = new URLProcessor();
+        const state = processor.analyzeUrl(`https://${DOMAIN}/users/jane.doe@example.com;contact=jane.doe@example.com?email=jane.doe%40example.com#jane.doe@example.com`);
+
+        const tags = [
+            store.createFeatureTag('Mail', '', engine.generateSelectorFromPath(live), engine.serializePath(live), 1, {
+                rule: processor.generateRule(state), ruleState: state
+            }),
+            // Stored before values were masked: the export must still not carry them
+            { ...store.createPageTag('User', '', processor.generateRule(state), state), sourceUrl: '' }
+        ];
+        const json = exporter.toJSON(tags);
+
+        expect(json).not.toContain('jane');
+        expect(json).toContain('data-owner=\\"[redacted]\\"');
+        expect(exporter.toCSV(tags)).not.toContain('jane');
+        expect(processor.generateRule(JSON.parse(json).tags[1].builderState)).toBe(processor.generateRule(state));
+    });
+});
@@ -0,0 +1,421 @@
+import { SavedElementNode } from './selector-engine';
+import { URLRuleState } from './url-processor';
+import { SavedTag, TagKind, redactTag } from './tag-store';
+import { URLRuleMatcher, RuleSyntaxError } from './url-rule-matcher';
+
+export type ExportFormat = 'json' | 'csv';
+
+/**
+ * Flat, Pendo-ready representation of a tag. JSON exports also carry the builder
+ * state so a file can be re-imported and reopened in the editor.
+ */
+export interface ExportedTag {
+    name: string;
+    type: TagKind;
+    rule: string;
+    sourceUrl: string;
+    matchCount: number | null;
+    description: string;
+    domain: string;
+    pageRule: string | null;            // Page scope of a feature tag
+    builderState?: SavedElementNode[] | URLRuleState;
+    pageRuleState?: URLRuleState;
+}
+
+export interface ImportIssue {
+    entry: number;    // 1-based entry number (CSV: data row, JSON: array index + 1)
+    name: string;
+    message: string;
+}
+
+export interface ImportCollision {
+    incoming: SavedTag;
+    existing: SavedTag;
+    reason: 'name' | 'rule';
+}
+
+export interface ImportResult {
+    tags: SavedTag[];
+    errors: ImportIssue[];
+}
+
+const CSV_COLUMNS = ['name', 'type', 'rule', 'source_url', 'match_count', 'description', 'domain', 'page_rule'];
+const FORMAT_ID = 'shadow-tagger';
+const FORMAT_VERSION = 1;
+
+// Spreadsheets run cells starting with these as formulas; such cells are exported behind a leading '
+const FORMULA_PREFIX = /^'*[=+\-@\t\r]/;
+
+const IDENTIFIER_TYPES = ['tag', 'id', 'class', 'data-attr', 'aria-attr', 'other-attr', 'position'];
+const SEGMENT_TYPES = ['literal', 'wildcard', 'ignore-after'];
+const PARAM_TYPES = ['exact', 'wildcard', 'exclude'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOptional = (value: unknown, type: 'string' | 'boolean') => value === undefined || typeof value === type;
+
+/**
+ * Describes the first problem with a saved builder path, or returns null if every node has the expected shape.
+ */
+function pathError(value: unknown): string | null {
+    if (!Array.isArray(value)) return 'must be a list of path nodes';
+    for (let i = 0; i < value.length; i++) {
+        const node: unknown = value[i];
+        const where = `node ${i + 1}`;
+        if (!isRecord(node) || typeof node.tagName !== 'string' || !Array.isArray(node.identifiers)) {
+            return `${where} needs a tagName and identifiers`;
+        }
+        if (typeof node.isShadowBoundary !== 'boolean' || typeof node.included !== 'boolean') {
+            return `${where} needs isShadowBoundary and included flags`;
+        }
+        if (!isOptional(node.hasClosedShadowRoot, 'boolean') || !isOptional(node.assignedSlotName, 'string')) {
+            return `${where} has invalid shadow root or slot details`;
+        }
+        const badIdentifier = node.identifiers.findIndex((ident: unknown) => !isRecord(ident) ||
+            !IDENTIFIER_TYPES.includes(String(ident.type)) ||
+            typeof ident.value !== 'string' || typeof ident.selectorString !== 'string' || typeof ident.enabled !== 'boolean' ||
+            !isOptional(ident.warning, 'string') || !isOptional(ident.blocked, 'boolean'));
+        if (badIdentifier >= 0) return `${where} has an invalid identifier (${badIdentifier + 1})`;
+    }
+    return null;
+}
+
+/**
+ * Describes the first problem with a saved URL rule state, or returns null if it has the expected shape.
+ */
+function ruleStateError(value: unknown): string | null {
+    if (!isRecord(value)) return 'must be a URL rule state';
+    if (typeof value.includeDomain !== 'boolean' || typeof value.domainWildcard !== 'boolean') return 'needs domain flags';
+    if (!isOptional(value.domain, 'string') || !isOptional(value.port, 'string') || !isOptional(value.protocol, 'string') ||
+        !isOptional(value.includePort, 'boolean') || !isOptional(value.includeProtocol, 'boolean')) {
+        return 'has invalid domain, port or protocol details';
+    }
+
+    const isSegment = (seg: unknown) => isRecord(seg) && typeof seg.value === 'string' && typeof seg.originalValue === 'string' &&
+        SEGMENT_TYPES.includes(String(seg.type)) && isOptional(seg.isMatrix, 'boolean') &&
+        isOptional(seg.piiWarning, 'string') && isOptional(seg.detector, 'string');
+    const isParam = (param: unknown) => isRecord(param) && typeof param.key === 'string' && typeof param.value === 'string' &&
+        PARAM_TYPES.includes(String(param.type)) && isOptional(param.piiWarning, 'string');
+
+    if (value.hostLabels !== undefined && !(Array.isArray(value.hostLabels) && value.hostLabels.every(isSegment))) {
+        return 'has invalid host labels';
+    }
+    if (!Array.isArray(value.pathSegments) || !value.pathSegments.every(isSegment)) return 'has invalid path segments';
+    if (!Array.isArray(value.queryParams) || !value.queryParams.every(param => isParam(param) && isOptional(param.reason, 'string'))) {
+        return 'has invalid query parameters';
+    }
+    if (!Array.isArray(value.hashComponents) || !value.hashComponents.every(comp => isParam(comp) && isOptional(comp.isBase, 'boolean'))) {
+        return 'has invalid hash components';
+    }
+    return null;
+}
+
+export class TagExporter {
+    private matcher = new URLRuleMatcher();
+
+    /**
+     * @param doc Document used for downloads and selector syntax checks; defaults to the page document.
+     * JSON and CSV export need no document at all.
+     */
+    constructor(private doc?: Document) { }
+
+    public toJSON(tags: SavedTag[]): string {
+        return JSON.stringify({
+            format: FORMAT_ID,
+            version: FORMAT_VERSION,
+            exportedAt: new Date().toISOString(),
+            tags: tags.map(redactTag).map(tag => ({
+                ...this.toRow(tag),
+                builderState: tag.kind === 'feature' ? tag.path : tag.ruleState,
+                pageRuleState: tag.kind === 'feature' ? tag.pageScope?.ruleState : undefined
+            }))
+        }, null, 2);
+    }
+
+    public toCSV(tags: SavedTag[]): string {
+        const lines = [CSV_COLUMNS.join(',')];
+        tags.forEach(tag => {
+            const row = this.toRow(tag);
+            lines.push([
+                row.name,
+                row.type,
+                row.rule,
+                row.sourceUrl,
+                row.matchCount === null ? '' : String(row.matchCount),
+                row.description,
+                row.domain,
+                row.pageRule ?? ''
+            ].map(value => this.escapeCsv(value)).join(','));
+        });
+        return lines.join('\r\n') + '\r\n';
+    }
+
+    /**
+     * Parses an exported JSON or CSV file back into tags for the given domain.
+     * Entries that fail validation, or repeat the name of an earlier entry of the same type, are reported instead of being returned.
+     */
+    public parse(text: string, domain: string): ImportResult {
+        const format: ExportFormat = text.trimStart().startsWith('{') || text.trimStart().startsWith('[') ? 'json' : 'csv';
+        const rows = format === 'json' ? this.parseJSONRows(text) : this.parseCSVRows(text);
+        const result: ImportResult = { tags: [], errors: [] };
+        // Everything is imported into one domain, so type and name identify a tag within the file
+        const seen = new Map<string, number>();
+
+        rows.forEach((row, i) => {
+            const message = this.validate(row);
+            if (message) {
+                result.errors.push({ entry: i + 1, name: String(row.name ?? ''), message });
+                return;
+            }
+            const tag = this.toTag(row as unknown as ExportedTag, domain);
+            const key = `${tag.kind}:${tag.name.toLowerCase()}`;
+            const first = seen.get(key);
+            if (first !== undefined) {
+                result.errors.push({ entry: i + 1, name: tag.name, message: `Same name as entry ${first} in this file` });
+                return;
+            }
+            seen.set(key, i + 1);
+            result.tags.push(tag);
+        });
+
+        return result;
+    }
+
+    /**
+     * Finds incoming tags that share a name or rule with a tag of the same type already in the library.
+     */
+    public findCollisions(incoming: SavedTag[], existing: SavedTag[]): ImportCollision[] {
+        const collisions: ImportCollision[] = [];
+
+        incoming.forEach(tag => {
+            const sameKind = existing.filter(e => e.kind === tag.kind);
+            const byName = sameKind.find(e => e.name.toLowerCase() === tag.name.toLowerCase());
+            // A feature scoped to a different page is a different tag, even with the same selector
+            const byRule = sameKind.find(e => e.rule === tag.rule && this.scopeOf(e) === this.scopeOf(tag));
+
+            if (byName) {
+                collisions.push({ incoming: tag, existing: byName, reason: 'name' });
+            } else if (byRule) {
+                collisions.push({ incoming: tag, existing: byRule, reason: 'rule' });
+            }
+        });
+
+        return collisions;
+    }
+
+    /**
+     * Triggers a browser download of the exported tags.
+     */
+    public download(tags: SavedTag[], format: ExportFormat, baseName: string) {
+        const content = format === 'json' ? this.toJSON(tags) : this.toCSV(tags);
+        const blob = new Blob([content], { type: format === 'json' ? 'application/json' : 'text/csv' });
+        const url = URL.createObjectURL(blob);
+        const link = (this.doc ?? document).createElement('a');
+        link.href = url;
+        link.download = `${baseName}.${format}`;
+        link.click();
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+    }
+
+    private toRow(tag: SavedTag): ExportedTag {
+        return {
+            name: tag.name,
+            type: tag.kind,
+            rule: tag.rule,
+            sourceUrl: tag.sourceUrl,
+            matchCount: tag.matchCount ?? null,
+            description: tag.description,
+            domain: tag.domain,
+            pageRule: tag.kind === 'feature' ? tag.pageScope?.rule ?? null : null
+        };
+    }
+
+    private scopeOf(tag: SavedTag): string {
+        return tag.kind === 'feature' ? tag.pageScope?.rule ?? '' : '';
+    }
+
+    private toTag(row: ExportedTag, domain: string): SavedTag {
+        const now = Date.now();
+        const base = {
+            id: crypto.randomUUID(),
+            name: row.name.trim(),
+            description: row.description || '',
+            rule: row.rule.trim(),
+            domain,
+            sourceUrl: row.sourceUrl || '',
+            matchCount: typeof row.matchCount === 'number' ? row.matchCount : undefined,
+            createdAt: now,
+            updatedAt: now
+        };
+        // Shapes were checked by validate()
+        const state = row.builderState;
+
+        if (row.type === 'feature') {
+            const pageRule = row.pageRule?.trim();
+            return {
+                ...base,
+                kind: 'feature',
+                path: Array.isArray(state) ? state : undefined,
+                pageScope: pageRule ? { rule: pageRule, ruleState: row.pageRuleState } : undefined
+            };
+        }
+        return {
+            ...base,
+            kind: 'page',
+            ruleState: state && !Array.isArray(state) ? state : undefined
+        };
+    }
+
+    private validate(row: Record<string, unknown>): string | null {
+        if (typeof row.name !== 'string' || !row.name.trim()) return 'Missing name';
+        if (row.type !== 'feature' && row.type !== 'page') return `Unknown type "${row.type ?? ''}"`;
+        if (typeof row.rule !== 'string' || !row.rule.trim()) return 'Missing rule';
+        if (row.matchCount !== null && row.matchCount !== undefined && typeof row.matchCount !== 'number') {
+            return 'Match count must be a number';
+        }
+        if (!isOptional(row.description, 'string')) return 'Description must be a string';
+        if (!isOptional(row.sourceUrl, 'string')) return 'Source URL must be a string';
+
+        if (row.builderState !== undefined && row.builderState !== null) {
+            const message = row.type === 'feature' ? pathError(row.builderState) : ruleStateError(row.builderState);
+            if (message) return `Invalid builder state: ${message}`;
+        }
+        if (row.pageRuleState !== undefined && row.pageRuleState !== null) {
+            if (row.type !== 'feature') return 'Only feature tags can have a page rule state';
+            const message = ruleStateError(row.pageRuleState);
+            if (message) return `Invalid page rule state: ${message}`;
+        }
+
+        if (row.pageRule !== null && row.pageRule !== undefined && typeof row.pageRule !== 'string') {
+            return 'Page rule must be a string';
+        }
+        if (typeof row.pageRule === 'string' && row.pageRule.trim()) {
+            if (row.type !== 'feature') return 'Only feature tags can have a page rule';
+            const message = this.ruleError(row.pageRule.trim());
+            if (message) return `Invalid page rule: ${message}`;
+        }
+
+        if (row.type === 'feature') {
+            const fragment = (this.doc ?? document).createDocumentFragment();
+            for (const segment of row.rule.split('::shadow').map(s => s.trim()).filter(Boolean)) {
+                try {
+                    fragment.querySelector(segment);
+                } catch {
+                    return `Invalid selector segment "${segment}"`;
+                }
+            }
+        } else {
+            const message = this.ruleError(row.rule.trim());
+            if (message) return `Invalid page rule: ${message}`;
+        }
+
+        return null;
+    }
+
+    private ruleError(rule: string): string | null {
+        try {
+            this.matcher.parse(rule);
+            return null;
+        } catch (e) {
+            if (!(e instanceof RuleSyntaxError)) throw e;
+            return `${e.message} (position ${e.position + 1})`;
+        }
+    }
+
+    private parseJSONRows(text: string): Record<string, unknown>[] {
+        let data: unknown;
+        try {
+            data = JSON.parse(text);
+        } catch (e) {
+            throw new Error(`Invalid JSON: ${(e as Error).message}`);
+        }
+
+        const tags: unknown = Array.isArray(data) ? data : isRecord(data) ? data.tags : undefined;
+        if (!Array.isArray(tags)) {
+            throw new Error('JSON file does not contain a tags array');
+        }
+        return tags.map((t: unknown) => (isRecord(t) ? t : {}));
+    }
+
+    private parseCSVRows(text: string): Record<string, unknown>[] {
+        const records = this.splitCsv(text).filter(r => r.some(cell => cell.trim()));
+        if (records.length === 0) return [];
+
+        const header = records[0].map(h => h.trim().toLowerCase());
+        const missing = ['name', 'type', 'rule'].filter(col => !header.includes(col));
+        if (missing.length > 0) {
+            throw new Error(`CSV is missing column(s): ${missing.join(', ')}`);
+        }
+
+        return records.slice(1).map(record => {
+            const cell = (col: string) => {
+                const index = header.indexOf(col);
+                const value = index >= 0 ? (record[index] ?? '') : '';
+                // Undo the formula guard added by escapeCsv
+                return FORMULA_PREFIX.test(value) && value.startsWith("'") ? value.slice(1) : value;
+            };
+            const matchCount = cell('match_count').trim();
+            return {
+                name: cell('name'),
+                type: cell('type').trim(),
+                rule: cell('rule'),
+                sourceUrl: cell('source_url'),
+                matchCount: matchCount === '' ? null : (isNaN(Number(matchCount)) ? matchCount : Number(matchCount)),
+                description: cell('description'),
+                domain: cell('domain'),
+                pageRule: cell('page_rule') || null
+            };
+        });
+    }
+
+    /**
+     * RFC 4180 style splitter: handles quoted cells containing commas, quotes and newlines.
+     */
+    private splitCsv(text: string): string[][] {
+        const records: string[][] = [];
+        let record: string[] = [];
+        let cell = '';
+        let inQuotes = false;
+
+        for (let i = 0; i < text.length; i++) {
+            const char = text[i];
+
+            if (inQuotes) {
+                if (char === '"' && text[i + 1] === '"') {
+                    cell += '"';
+                    i++;
+                } else if (char === '"') {
+                    inQuotes = false;
+                } else {
+                    cell += char;
+                }
+            } else if (char === '"') {
+                inQuotes = true;
+            } else if (char === ',') {
+                record.push(cell);
+                cell = '';
+            } else if (char === '\n' || char === '\r') {
+                if (char === '\r' && text[i + 1] === '\n') i++;
+                record.push(cell);
+                records.push(record);
+                record = [];
+                cell = '';
+            } else {
+                cell += char;
+            }
+        }
+
+        if (cell || record.length > 0) {
+            record.push(cell);
+            records.push(record);
+        }
+
+        return records;
+    }
+
+    private escapeCsv(value: string): string {
+        const safe = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+        return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+    }
+}
@@ -0,0 +1,146 @@
+import { SavedElementNode, redactPath } from './selector-engine';
+import { URLRuleState, redactRuleState } from './url-processor';
+import { sendToBackground } from './messages';
+
+export type TagKind = 'feature' | 'page';
+
+interface SavedTagBase {
+    id: string;
+    name: string;
+    description: string;
+    rule: string;       // Generated ::shadow selector or Pendo URL rule
+    domain: string;     // Hostname the tag was saved under
+    sourceUrl: string;  // Page the tag was built on
+    matchCount?: number; // Elements matched on the source page when saved (features only)
+    createdAt: number;
+    updatedAt: number;
+}
+
+// The page rule a feature is scoped to; the rule state is absent when imported from CSV
+export interface PageScope {
+    rule: string;
+    ruleState?: URLRuleState;
+}
+
+// Builder state is absent on tags imported from CSV, which only carries the generated rule.
+export interface FeatureTag extends SavedTagBase {
+    kind: 'feature';
+    path?: SavedElementNode[];
+    pageScope?: PageScope;
+}
+
+export interface PageTag extends SavedTagBase {
+    kind: 'page';
+    ruleState?: URLRuleState;
+}
+
+export type SavedTag = FeatureTag | PageTag;
+
+const KEY_PREFIX = 'tagLibrary:';
+
+/**
+ * Masks personal data in a tag's builder state. Applied on every save and export, which also covers
+ * tags imported from files or stored before values were masked.
+ */
+export function redactTag<T extends SavedTag>(tag: T): T {
+    if (tag.kind === 'feature') {
+        return {
+            ...tag,
+            path: tag.path && redactPath(tag.path),
+            pageScope: tag.pageScope && { ...tag.pageScope, ruleState: tag.pageScope.ruleState && redactRuleState(tag.pageScope.ruleState) }
+        };
+    }
+    return { ...tag, ruleState: tag.ruleState && redactRuleState(tag.ruleState) };
+}
+
+/**
+ * Persists saved feature selectors and page rules in chrome.storage.local, one key per domain.
+ * Storage goes through the background, which applies each update atomically and syncs other tabs and badge counts on every change.
+ */
+export class TagStore {
+    /**
+     * @param pageUrl URL that new tags are saved for; defaults to the current page, read at save time so SPA navigations are followed
+     */
+    constructor(private pageUrl?: string) { }
+
+    public async list(domain: string = this.getPageUrl().hostname): Promise<SavedTag[]> {
+        const key = this.keyFor(domain);
+        const result = await sendToBackground({ type: 'STORAGE_GET', keys: [key] });
+        const tags = (result[key] as SavedTag[] | undefined) || [];
+        return tags.sort((a, b) => b.updatedAt - a.updatedAt);
+    }
+
+    /**
+     * Returns every domain that currently has at least one saved tag.
+     */
+    public async listDomains(): Promise<string[]> {
+        const all = await sendToBackground({ type: 'STORAGE_GET', keys: null });
+        return Object.keys(all)
+            .filter(key => key.startsWith(KEY_PREFIX) && (all[key] as SavedTag[]).length > 0)
+            .map(key => key.slice(KEY_PREFIX.length))
+            .sort();
+    }
+
+    /**
+     * Inserts a new tag or replaces the existing tag with the same id.
+     */
+    public async save<T extends SavedTag>(tag: T): Promise<T> {
+        const saved = redactTag({ ...tag, updatedAt: Date.now() });
+        await sendToBackground({ type: 'TAG_SAVE', domain: tag.domain, tags: [saved] });
+        return saved;
+    }
+
+    /**
+     * Writes several tags to one domain in a single storage update.
+     */
+    public async saveAll(domain: string, incoming: SavedTag[]): Promise<void> {
+        const now = Date.now();
+        const tags = incoming.map(tag => redactTag({ ...tag, domain, updatedAt: now }));
+        await sendToBackground({ type: 'TAG_SAVE', domain, tags });
+    }
+
+    public async remove(domain: string, id: string): Promise<void> {
+        await sendToBackground({ type: 'TAG_REMOVE', domain, id });
+    }
+
+    /**
+     * Fills in the bookkeeping fields for a tag that has not been saved yet.
+     */
+    public createFeatureTag(
+        name: string,
+        description: string,
+        rule: string,
+        path: SavedElementNode[],
+        matchCount?: number,
+        pageScope?: PageScope
+    ): FeatureTag {
+        return { ...this.createBase(name, description, rule), kind: 'feature', path, matchCount, pageScope };
+    }
+
+    public createPageTag(name: string, description: string, rule: string, ruleState: URLRuleState): PageTag {
+        return { ...this.createBase(name, description, rule), kind: 'page', ruleState };
+    }
+
+    private createBase(name: string, description: string, rule: string): SavedTagBase {
+        const now = Date.now();
+        const url = this.getPageUrl();
+        return {
+            id: crypto.randomUUID(),
+            name,
+            description,
+            rule,
+            domain: url.hostname,
+            sourceUrl: url.href,
+            createdAt: now,
+            updatedAt: now
+        };
+    }
+
+    private getPageUrl(): URL {
+        return new URL(this.pageUrl ?? window.location.href);
+    }
+
+    private keyFor(domain: string): string {
+        return `${KEY_PREFIX}${domain}`;
+    }
+}
@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { URLProcessor, URLRuleState } from './url-processor';
+
+const BASE = 'https://app.example.com';
+
+function param(state: URLRuleState, key: string) {
+    const found = state.queryParams.find(p => p.key === key);
+    if (!found) throw new Error(`No query param ${key}`);
+    return found;
+}
+
+describe('URLProcessor', () => {
+    let processor: URLProcessor;
+
+    beforeEach(() => {
+        processor = new URLProcessor();
+    });
+
+    describe('page tagging scenarios (PRD A.2)', () => {
+        it('URL-001: simple path', () => {
+            const state = processor.analyzeUrl(`${BASE}/pricing`);
+            expect(processor.generateRule(state)).toBe('//*/pricing');
+        });
+
+        it('URL-002: UUID in the path becomes a wildcard', () => {
+            const state = processor.analyzeUrl(`${BASE}/account/a987fbc9-4bed-3078-cf07-9141ba07c9f3/details`);
+
+            expect(state.pathSegments[1]).toMatchObject({ type: 'wildcard', detector: 'UUID' });
+            expect(processor.generateRule(state)).toBe('//*/account/*/details');
+        });
+
+        it('URL-003: UTM parameters are stripped', () => {
+            const state = processor.analyzeUrl(`${BASE}/landing?utm_source=newsletter&utm_campaign=spring`);
+
+            expect(state.queryParams.every(p => p.type === 'exclude')).toBe(true);
+            expect(processor.generateRule(state)).toBe('//*/landing');
+        });
+
+        it('URL-004: query parameter matching any value', () => {
+            const state = processor.analyzeUrl(`${BASE}/search?q=running+shoes`);
+            param(state, 'q').type = 'wildcard';
+            expect(processor.generateRule(state)).toBe('//*/search?q');
+        });
+
+        it('URL-005: query parameter matching an exact value', () => {
+            const state = processor.analyzeUrl(`${BASE}/filter?status=active`);
+
+            expect(param(state, 'status').type).toBe('exact');
+            expect(processor.generateRule(state)).toBe('//*/filter?status=active');
+        });
+
+        it('URL-006: hash routing', () => {
+            const state = processor.analyzeUrl(`${BASE}/#/48213/dashboard`);
+            const rule = processor.generateRule(state);
+
+            expect(rule).toBe('//*/#!/*/dashboard');
+            expect(processor.testUrl(state, `${BASE}/#!/99/dashboard`)).toBe(true);
+            expect(processor.testUrl(state, `${BASE}/#/99/settings`)).toBe(false);
+        });
+
+        it('URL-007: matrix parameters', () => {
+            const state = processor.analyzeUrl(`${BASE}/products;category`);
+
+            expect(state.pathSegments[1]).toMatchObject({ value: 'category', isMatrix: true });
+            expect(processor.generateRule(state)).toBe('//*/products;category');
+        });
+
+        it('URL-008: hash with parameters', () => {
+            const state = processor.analyzeUrl(`${BASE}/#build;accountId=100234`);
+
+            expect(state.hashComponents[0]).toMatchObject({ key: 'build', isBase: true });
+            expect(state.hashComponents[1]).toMatchObject({ key: 'accountId', type: 'wildcard' });
+            expect(processor.generateRule(state)).toBe('//*/#!build;accountId');
+        });
+    });
+
+    describe('generateRule', () => {
+        it('uses the analyzed host, not the current page, for literal domains', () => {
+            const state = processor.analyzeUrl(`${BASE}/pricing`);
+            state.includeDomain = true;
+            state.domainWildcard = false;
+            expect(processor.generateRule(state)).toBe('//app.example.com/pricing');
+        });
+
+        it('round-trips through parseRule', () => {
+            const rule = '//*/account/*/details;tab=*?q#!build;accountId';
+            expect(processor.generateRule(processor.parseRule(rule))).toBe(rule);
+        });
+
+        it('round-trips encoded query and hash values through parseRule', () => {
+            const rule = '//*/a%20b/c?q=hello%20world&x=a%26b#!build;name=a%20b';
+            const state = processor.parseRule(rule);
+
+            expect(param(state, 'q').value).toBe('hello world');
+            expect(processor.generateRule(state)).toBe(rule);
+            expect(processor.testUrl(state, `${BASE}/a%20b/c?q=hello+world&x=a%26b#build;name=a%20b`)).toBe(true);
+        });
+
+        it('encodes query values with spaces so the page still matches its own rule', () => {
+            const url = `${BASE}/search?q=hello+world`;
+            const state = processor.analyzeUrl(url);
+
+            expect(processor.generateRule(state)).toBe('//*/search?q=hello%20world');
+            expect(processor.testUrl(state, url)).toBe(true);
+            expect(processor.testUrl(state, `${BASE}/search?q=hello`)).toBe(false);
+        });
+
+        it('encodes an escaped & in a query value instead of splitting the parameter', () => {
+            const url = `${BASE}/search?q=x%26y`;
+            const state = processor.analyzeUrl(url);
+
+            expect(processor.generateRule(state)).toBe('//*/search?q=x%26y');
+            expect(processor.testUrl(state, url)).toBe(true);
+        });
+    });
+
+    describe('inferRule', () => {
+        it('wildcards segments and values that vary between URLs', () => {
+            const state = processor.inferRule([
+                `${BASE}/projects/alpha/settings?status=active&sort=asc`,
+                `${BASE}/projects/beta/settings?status=active&sort=desc&page=2`
+            ]);
+
+            expect(state.pathSegments.map(seg => seg.type)).toEqual(['literal', 'wildcard', 'literal']);
+            expect(state.queryParams.map(p => [p.key, p.type, p.reason])).toEqual([
+                ['status', 'exact', 'Same value in every URL'],
+                ['sort', 'wildcard', 'Value differs between URLs'],
+                ['page', 'exclude', 'Missing from 1 of 2 URLs']
+            ]);
+            expect(processor.generateRule(state)).toBe('//*/projects/*/settings?status=active&sort');
+        });
+
+        it('ends the path with ** when the URLs differ in length', () => {
+            const state = processor.inferRule([`${BASE}/docs/guides`, `${BASE}/docs/guides/setup/advanced`, `${BASE}/docs/guides/faq`]);
+
+            expect(processor.generateRule(state)).toBe('//*/docs/guides/**');
+        });
+
+        it('keeps a shared hash route and drops one that differs', () => {
+            expect(processor.generateRule(processor.inferRule([`${BASE}/#build;tab=a`, `${BASE}/#build;tab=b`]))).toBe('//*/#!build;tab');
+            expect(processor.generateRule(processor.inferRule([`${BASE}/#build`, `${BASE}/#deploy`]))).toBe('//*/');
+        });
+    });
+
+    describe('carryOverrides', () => {
+        const previousUrl = `${BASE}/projects/alpha/settings?status=active`;
+
+        it('carries path, query and domain choices to a URL with the same structure', () => {
+            const previous = processor.analyzeUrl(previousUrl);
+            previous.pathSegments[1].type = 'wildcard';
+            param(previous, 'status').type = 'wildcard';
+            previous.includeDomain = true;
+            previous.domainWildcard = false;
+
+            const next = processor.carryOverrides(previous, previousUrl, `${BASE}/projects/beta/settings?status=archived`);
+
+            expect(next.pathSegments.map(seg => seg.originalValue)).toEqual(['projects', 'beta', 'settings']);
+            expect(processor.generateRule(next)).toBe('//app.example.com/projects/*/settings?status');
+        });
+
+        it('drops path overrides once the segments no longer line up, except ignore-after', () => {
+            const previous = processor.analyzeUrl(previousUrl);
+            previous.pathSegments[1].type = 'wildcard';
+            const nextUrl = `${BASE}/projects/beta/settings/members`;
+
+            expect(processor.generateRule(processor.carryOverrides(previous, previousUrl, nextUrl)))
+                .toBe('//*/projects/beta/settings/members');
+
+            previous.pathSegments[1].type = 'ignore-after';
+            expect(processor.generateRule(processor.carryOverrides(previous, previousUrl, nextUrl))).toBe('//*/projects/**');
+        });
+
+        it('leaves values it did not override at their new defaults', () => {
+            const previous = processor.analyzeUrl(previousUrl);
+            const next = processor.carryOverrides(previous, previousUrl, `${BASE}/projects/alpha/settings?status=active&utm_source=mail`);
+
+            expect(param(next, 'utm_source').type).toBe('exclude');
+            expect(processor.generateRule(next)).toBe('//*/projects/alpha/settings?status=active');
+        });
+    });
+
+    describe('testUrl', () => {
+        it('matches nothing when the state does not produce a valid rule', () => {
+            const state = processor.analyzeUrl(`${BASE}/pricing`);
+            state.pathSegments[0].value = 'two words';
+            expect(processor.testUrl(state, `${BASE}/pricing`)).toBe(false);
+        });
+    });
+});
@@ -1,3 +1,8 @@
+import { PIISanitizer, REDACTED } from './pii-sanitizer';
+import { DetectorRegistry } from './segment-detectors';
+import { QueryParamClassifier } from './query-param-classifier';
+import { URLRuleMatcher, ParsedRuleParam, RuleSyntaxError } from './url-rule-matcher';
+
 export type SegmentType = 'literal' | 'wildcard' | 'ignore-after';
 
 export interface URLSegment {
@@ -5,12 +10,16 @@ export interface URLSegment {
     originalValue: string;
     type: SegmentType;
     isMatrix?: boolean;
+    piiWarning?: string;  // Set when the value looks like personal data; never emitted literally
+    detector?: string;    // Name of the detector that marked the value as dynamic
 }
 
 export interface URLQueryParam {
     key: string;
     value: string;
     type: 'exact' | 'wildcard' | 'exclude';
+    piiWarning?: string;
+    reason?: string;  // Why the param got its default type
 }
 
 export interface URLHashComponent {
@@ -18,26 +27,73 @@ export interface URLHashComponent {
     value: string;
     type: 'exact' | 'wildcard' | 'exclude';
     isBase?: boolean;
+    piiWarning?: string;
 }
 
 export interface URLRuleState {
     includeDomain: boolean;
     domainWildcard: boolean;
+    domain?: string;          // Hostname of the analyzed URL
+    hostLabels?: URLSegment[];  // Dot-separated host labels, each literal or wildcard (e.g. *.example.com)
+    port?: string;            // Explicit port of the analyzed URL, '' for the protocol default
+    includePort?: boolean;
+    protocol?: string;        // e.g. 'https:'
+    includeProtocol?: boolean;
     pathSegments: URLSegment[];
     queryParams: URLQueryParam[];
     hashComponents: URLHashComponent[];
 }
 
-export class URLProcessor {
-    private patterns = {
-        uuid: /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/i,
-        objectId: /[0-9a-f]{24}/i,
-        numeric: /^\d+$/,
-        base64: /[A-Za-z0-9_-]{20,}/
+/**
+ * Masks values flagged as personal data, so a rule state can be stored or exported. The generated rule does not
+ * change, since flagged values are never emitted literally.
+ */
+export function redactRuleState(state: URLRuleState): URLRuleState {
+    const redactSegment = (seg: URLSegment): URLSegment => {
+        if (!seg.piiWarning) return { ...seg };
+        // Matrix "key=value" segments keep their key, which the rule still uses
+        const masked = seg.value.includes('=') ? `${seg.value.split('=')[0]}=${REDACTED}` : REDACTED;
+        return { ...seg, value: masked, originalValue: masked };
+    };
+
+    return {
+        ...state,
+        hostLabels: state.hostLabels?.map(redactSegment),
+        pathSegments: state.pathSegments.map(redactSegment),
+        queryParams: state.queryParams.map(p => p.piiWarning ? { ...p, value: REDACTED } : { ...p }),
+        hashComponents: state.hashComponents.map(c => {
+            if (!c.piiWarning) return { ...c };
+            return c.isBase ? { ...c, key: REDACTED } : { ...c, value: REDACTED };
+        })
     };
+}
+
+export class URLProcessor {
+    private matcher = new URLRuleMatcher();
+
+    constructor(
+        private sanitizer: PIISanitizer = new PIISanitizer(),
+        private detectors: DetectorRegistry = new DetectorRegistry(),
+        private classifier: QueryParamClassifier = new QueryParamClassifier()
+    ) { }
+
+    public getSanitizer(): PIISanitizer {
+        return this.sanitizer;
+    }
 
-    public analyzeUrl(urlStr: string): URLRuleState {
-        const url = new URL(urlStr);
+    public getDetectors(): DetectorRegistry {
+        return this.detectors;
+    }
+
+    public getClassifier(): QueryParamClassifier {
+        return this.classifier;
+    }
+
+    /**
+     * @param base Resolves relative URLs (e.g. "/account/42"); without it the URL must be absolute
+     */
+    public analyzeUrl(urlStr: string, base?: string): URLRuleState {
+        const url = new URL(urlStr, base);
 
         // Path segments
         const rawPathSegments = url.pathname.split('/').filter(Boolean);
@@ -46,25 +102,24 @@ export class URLProcessor {
         rawPathSegments.forEach(rawSeg => {
             if (rawSeg.includes(';')) {
                 const parts = rawSeg.split(';');
-                pathSegments.push(this.createSegment(parts[0]));
+                pathSegments.push(this.createSegment(parts[0], url.hostname));
                 for (let i = 1; i < parts.length; i++) {
-                    const matrixSeg = this.createSegment(parts[i]);
+                    const matrixSeg = this.createSegment(parts[i], url.hostname);
                     matrixSeg.isMatrix = true;
                     pathSegments.push(matrixSeg);
                 }
             } else {
-                pathSegments.push(this.createSegment(rawSeg));
+                pathSegments.push(this.createSegment(rawSeg, url.hostname));
             }
         });
 
         // Query parameters
         const queryParams: URLQueryParam[] = [];
         url.searchParams.forEach((value, key) => {
-            queryParams.push({
-                key,
-                value,
-                type: this.isDynamic(value) ? 'wildcard' : 'exact'
-            });
+            const piiWarning = this.sanitizer.getWarning(value);
+            const detector = this.detectors.detect(value, url.hostname)?.name;
+            const { type, reason } = this.classifier.classify(key, url.hostname, { piiWarning, detector });
+            queryParams.push({ key, value, type, piiWarning, reason });
         });
 
         // Hash components (Boomi-style: #base;key1=val1;key2=val2)
@@ -72,23 +127,29 @@ export class URLProcessor {
         const fullHash = url.hash.replace(/^#/, '');
         if (fullHash) {
             const parts = fullHash.split(';');
-            // Base part
+            // Base part; a hashbang is implied by the rule syntax, and dynamic segments of a route (#/users/42) become wildcards
+            const route = parts[0].replace(/^!/, '');
+            const basePii = this.sanitizer.getWarning(route);
             hashComponents.push({
-                key: parts[0],
+                key: route.includes('/') ? route.split('/').map(seg => seg && this.createSegment(seg, url.hostname).type === 'wildcard' ? '*' : seg).join('/') : route,
                 value: '',
-                type: 'exact',
-                isBase: true
+                type: basePii ? 'exclude' : 'exact',
+                isBase: true,
+                piiWarning: basePii
             });
             // Parameters
             for (let i = 1; i < parts.length; i++) {
                 const segment = parts[i];
                 if (segment.includes('=')) {
                     const [key, ...valParts] = segment.split('=');
-                    const value = valParts.join('=');
+                    // Decoded like query values, so both are stored and emitted the same way
+                    const value = this.safeDecode(valParts.join('='));
+                    const piiWarning = this.sanitizer.getWarning(value);
                     hashComponents.push({
                         key,
                         value,
-                        type: this.isDynamic(value) ? 'wildcard' : 'exact'
+                        type: piiWarning || this.isDynamic(value, url.hostname) ? 'wildcard' : 'exact',
+                        piiWarning
                     });
                 } else {
                     hashComponents.push({
@@ -103,26 +164,270 @@ export class URLProcessor {
         return {
             includeDomain: false,
             domainWildcard: true,
+            domain: url.hostname,
+            hostLabels: this.createHostLabels(url.hostname),
+            port: url.port,
+            includePort: false,
+            protocol: url.protocol,
+            includeProtocol: false,
             pathSegments,
             queryParams,
             hashComponents
         };
     }
 
-    private createSegment(val: string): URLSegment {
+    /**
+     * Infers a single rule from several URLs: segments and values that vary across the set become
+     * wildcards, stable ones stay literal, and query params that only sometimes appear are excluded.
+     */
+    public inferRule(urls: string[], base?: string): URLRuleState {
+        const states = urls.map(url => this.analyzeUrl(url, base));
+        if (states.length === 0) throw new Error('At least one URL is required');
+        if (states.length === 1) return states[0];
+
+        // Path: compare position by position; a length mismatch means "anything after this"
+        const pathSegments: URLSegment[] = [];
+        const minLength = Math.min(...states.map(s => s.pathSegments.length));
+        const maxLength = Math.max(...states.map(s => s.pathSegments.length));
+
+        for (let i = 0; i < minLength; i++) {
+            const column = states.map(s => s.pathSegments[i]);
+            const first = column[0];
+            const piiWarning = column.find(seg => seg.piiWarning)?.piiWarning;
+            const varies = column.some(seg => seg.originalValue !== first.originalValue || !!seg.isMatrix !== !!first.isMatrix);
+
+            if (varies || piiWarning) {
+                const keys = new Set(column.map(seg => seg.originalValue.split('=')[0]));
+                const sharedKey = first.originalValue.includes('=') && keys.size === 1;
+                pathSegments.push({
+                    value: sharedKey ? `${first.originalValue.split('=')[0]}=*` : '*',
+                    originalValue: first.originalValue,
+                    type: 'wildcard',
+                    isMatrix: first.isMatrix,
+                    piiWarning
+                });
+            } else {
+                pathSegments.push({ ...first, value: first.originalValue, type: 'literal' });
+            }
+        }
+
+        if (maxLength > minLength) {
+            const longest = states.find(s => s.pathSegments.length === maxLength)!;
+            pathSegments.push({ ...longest.pathSegments[minLength], value: '**', type: 'ignore-after' });
+        }
+
+        return {
+            includeDomain: false,
+            domainWildcard: true,
+            domain: states.every(s => s.domain === states[0].domain) ? states[0].domain : undefined,
+            hostLabels: this.inferHostLabels(states),
+            port: states.every(s => s.port === states[0].port) ? states[0].port : undefined,
+            includePort: false,
+            protocol: states.every(s => s.protocol === states[0].protocol) ? states[0].protocol : undefined,
+            includeProtocol: false,
+            pathSegments,
+            queryParams: this.inferParams(states.map(s => s.queryParams)),
+            hashComponents: this.inferHash(states.map(s => s.hashComponents))
+        };
+    }
+
+    /**
+     * Analyzes a new URL while keeping the choices the user made for the previous one.
+     * A choice counts as an override when it differs from what analyzing the previous URL produces;
+     * path overrides carry over only while the segment structure still lines up.
+     */
+    public carryOverrides(previous: URLRuleState, previousUrl: string, nextUrl: string): URLRuleState {
+        const defaults = this.analyzeUrl(previousUrl);
+        const next = this.analyzeUrl(nextUrl);
+
+        next.includeDomain = previous.includeDomain;
+        next.domainWildcard = previous.domainWildcard;
+        next.includePort = previous.includePort;
+        next.includeProtocol = previous.includeProtocol;
+        if (previous.hostLabels && next.hostLabels && previous.hostLabels.length === next.hostLabels.length) {
+            previous.hostLabels.forEach((label, i) => next.hostLabels![i].type = label.type);
+        }
+
+        const sameShape = previous.pathSegments.length === next.pathSegments.length &&
+            previous.pathSegments.every((seg, i) => !!seg.isMatrix === !!next.pathSegments[i].isMatrix);
+
+        previous.pathSegments.forEach((seg, i) => {
+            const target = next.pathSegments[i];
+            if (!target || seg.type === defaults.pathSegments[i]?.type) return;
+            // "Ignore after" only needs the path to be long enough; other overrides need matching structure
+            if (seg.type === 'ignore-after' || sameShape) {
+                target.type = seg.type === 'literal' && target.piiWarning ? 'wildcard' : seg.type;
+            }
+        });
+
+        previous.queryParams.forEach(param => {
+            const original = defaults.queryParams.find(p => p.key === param.key);
+            const target = next.queryParams.find(p => p.key === param.key);
+            if (!target || param.type === original?.type) return;
+            target.type = param.type === 'exact' && target.piiWarning ? 'wildcard' : param.type;
+        });
+
+        previous.hashComponents.forEach(comp => {
+            const original = defaults.hashComponents.find(c => c.key === comp.key && !!c.isBase === !!comp.isBase);
+            const target = next.hashComponents.find(c => comp.isBase ? c.isBase : c.key === comp.key && !c.isBase);
+            if (!target || comp.type === original?.type || (target.piiWarning && comp.type !== 'exclude')) return;
+            target.type = comp.type;
+        });
+
+        return next;
+    }
+
+    /**
+     * Checks whether a URL satisfies the rule described by the state. A state that does not produce a valid rule matches nothing.
+     */
+    public testUrl(state: URLRuleState, urlStr: string): boolean {
+        try {
+            return this.matcher.test(this.generateRule(state), urlStr).matched;
+        } catch (e) {
+            if (e instanceof RuleSyntaxError) return false;
+            throw e;
+        }
+    }
+
+    private inferHostLabels(states: URLRuleState[]): URLSegment[] | undefined {
+        const labelSets = states.map(s => s.hostLabels ?? []);
+        const length = labelSets[0].length;
+        // Hosts with different depths (example.com vs app.example.com) cannot share one label pattern
+        if (length === 0 || labelSets.some(labels => labels.length !== length)) return undefined;
+
+        return labelSets[0].map((label, i) => {
+            const varies = labelSets.some(labels => labels[i].originalValue !== label.originalValue);
+            return { ...label, value: varies ? '*' : label.originalValue, type: varies ? 'wildcard' : 'literal' };
+        });
+    }
+
+    private inferParams(sets: URLQueryParam[][]): URLQueryParam[] {
+        const keys = Array.from(new Set(sets.flatMap(params => params.map(p => p.key))));
+
+        return keys.map(key => {
+            const found = sets.map(params => params.find(p => p.key === key));
+            const present = found.filter((p): p is URLQueryParam => !!p);
+            const piiWarning = present.find(p => p.piiWarning)?.piiWarning;
+            // Tracking params and user exclude lists apply regardless of how the values compare
+            const preset = present.find(p => p.type === 'exclude' && p.reason);
+
+            let type: URLQueryParam['type'];
+            let reason: string;
+            if (preset) [type, reason] = ['exclude', preset.reason!];
+            else if (present.length < sets.length) [type, reason] = ['exclude', `Missing from ${sets.length - present.length} of ${sets.length} URLs`];
+            else if (piiWarning) [type, reason] = ['wildcard', piiWarning];
+            else if (present.some(p => p.value !== present[0].value)) [type, reason] = ['wildcard', 'Value differs between URLs'];
+            else [type, reason] = ['exact', 'Same value in every URL'];
+
+            return { key, value: present[0].value, type, piiWarning, reason };
+        });
+    }
+
+    private inferHash(sets: URLHashComponent[][]): URLHashComponent[] {
+        const bases = sets.map(components => components.find(c => c.isBase));
+        const first = bases[0];
+        // A hash route that differs between URLs cannot be expressed, so drop the hash entirely
+        if (!first || bases.some(b => !b || b.key !== first.key)) return [];
+
+        const params = this.inferParams(sets.map(components =>
+            components.filter(c => !c.isBase).map(c => ({ key: c.key, value: c.value, type: c.type, piiWarning: c.piiWarning }))));
+
+        return [{ ...first }, ...params];
+    }
+
+    /**
+     * Turns an existing rule string back into editor state, so hand-written rules can be edited visually.
+     * Throws RuleSyntaxError (with the position of the problem) for invalid rules.
+     */
+    public parseRule(rule: string): URLRuleState {
+        const parsed = this.matcher.parse(rule.trim());
+
+        const pathSegments: URLSegment[] = [];
+        parsed.path.forEach(seg => {
+            if (seg.value) pathSegments.push(this.createRuleSegment(seg.value));
+            seg.matrix.forEach(param => pathSegments.push({ ...this.createRuleSegment(param.raw), isMatrix: true }));
+        });
+
+        // The parser has already decoded values; generateRule encodes them again
+        const toParam = (param: ParsedRuleParam): URLQueryParam => ({
+            key: param.key,
+            value: param.value ?? '',
+            type: param.value === null ? 'wildcard' : 'exact'
+        });
+
+        const hashComponents: URLHashComponent[] = [];
+        if (parsed.hash) {
+            if (parsed.hash.base) {
+                hashComponents.push({ key: parsed.hash.route, value: '', type: 'exact', isBase: true });
+            }
+            parsed.hash.params.forEach(param => {
+                const eq = param.raw.indexOf('=');
+                // A bare key is a flag-style component and is emitted as-is
+                hashComponents.push(eq === -1 ? { key: param.key, value: '', type: 'exact' } : toParam(param));
+            });
+        }
+
+        const [host, port] = parsed.domain.split(':');
+        return {
+            includeDomain: parsed.domain !== '*' || !!parsed.protocol,
+            domainWildcard: parsed.domain === '*',
+            domain: parsed.domain === '*' ? undefined : host,
+            hostLabels: parsed.domain === '*' ? undefined : host.split('.').map(label => this.createRuleSegment(label)),
+            port: port ?? '',
+            includePort: port !== undefined,
+            protocol: parsed.protocol ?? undefined,
+            includeProtocol: !!parsed.protocol,
+            pathSegments,
+            queryParams: parsed.query.map(toParam),
+            hashComponents
+        };
+    }
+
+    private safeDecode(value: string): string {
+        try {
+            return decodeURIComponent(value.replace(/\+/g, ' '));
+        } catch {
+            return value;
+        }
+    }
+
+    private createHostLabels(hostname: string): URLSegment[] {
+        return hostname.split('.').map(label => ({ value: label, originalValue: label, type: 'literal' }));
+    }
+
+    private createRuleSegment(val: string): URLSegment {
+        if (val === '**') return { value: '**', originalValue: '**', type: 'ignore-after' };
+        const isWildcard = val === '*' || val.endsWith('=*');
+        return { value: val, originalValue: val, type: isWildcard ? 'wildcard' : 'literal' };
+    }
+
+    private createSegment(val: string, domain: string): URLSegment {
         const dynamicCheckVal = val.includes('=') ? val.split('=')[1] : val;
-        const isDynamic = this.isDynamic(dynamicCheckVal);
+        const piiWarning = this.sanitizer.getWarning(dynamicCheckVal);
+        const detector = this.detectors.detect(dynamicCheckVal, domain);
+        const isDynamic = !!piiWarning || !!detector;
 
         return {
             value: isDynamic ? (val.includes('=') ? `${val.split('=')[0]}=*` : '*') : val,
             originalValue: val,
-            type: isDynamic ? 'wildcard' : 'literal'
+            type: isDynamic ? 'wildcard' : 'literal',
+            piiWarning,
+            detector: detector?.name
         };
     }
 
-    private isDynamic(val: string): boolean {
-        if (!val) return false;
-        return Object.values(this.patterns).some(pattern => pattern.test(val));
+    private isDynamic(val: string, domain: string): boolean {
+        return !!this.detectors.detect(val, domain);
+    }
+
+    /**
+     * Host part of a literal-domain rule, built from the analyzed URL (never the current page).
+     */
+    private formatHost(state: URLRuleState): string {
+        const host = state.hostLabels?.length
+            ? state.hostLabels.map(label => label.type === 'wildcard' ? '*' : label.originalValue).join('.')
+            : state.domain || '*';
+        return state.includePort && state.port ? `${host}:${state.port}` : host;
     }
 
     public generateRule(state: URLRuleState): string {
@@ -130,7 +435,8 @@ export class URLProcessor {
 
         let domainStr = '//*/';
         if (includeDomain) {
-            domainStr = domainWildcard ? `//*/` : `//${window.location.hostname}/`;
+            domainStr = domainWildcard ? `//*/` : `//${this.formatHost(state)}/`;
+            if (state.includeProtocol && state.protocol) domainStr = state.protocol + domainStr;
         }
 
         let rule = domainStr;
@@ -144,7 +450,8 @@ export class URLProcessor {
             }
 
             let val = seg.value;
-            if (seg.type === 'wildcard') {
+            // PII values are never matched literally, whatever the user picked
+            if (seg.type === 'wildcard' || seg.piiWarning) {
                 val = seg.value.includes('=') ? `${seg.value.split('=')[0]}=*` : '*';
             }
 
@@ -166,8 +473,10 @@ export class URLProcessor {
             const activeParams = queryParams
                 .filter(p => p.type !== 'exclude')
                 .map(p => {
-                    if (p.type === 'wildcard') return p.key; // Official Pendo "any value" syntax
-                    return `${p.key}=${p.value}`;
+                    // Keys and values are stored decoded; encode them so spaces, & and = cannot break the rule
+                    const key = encodeURIComponent(p.key);
+                    if (p.type === 'wildcard' || p.piiWarning) return key; // Official Pendo "any value" syntax
+                    return `${key}=${encodeURIComponent(p.value)}`;
                 });
 
             if (activeParams.length > 0) {
@@ -176,13 +485,13 @@ export class URLProcessor {
         }
 
         // Hash components: normalize # to #! for path fragments
-        const activeHash = hashComponents.filter(c => c.type !== 'exclude');
+        const activeHash = hashComponents.filter(c => c.type !== 'exclude' && !(c.isBase && c.piiWarning));
         if (activeHash.length > 0) {
             rule += '#!';
             const hashRuleParts = activeHash.map(c => {
                 if (c.isBase) return c.key.replace(/^#!?/, '');
-                if (c.type === 'wildcard') return c.key; // Match any value syntax
-                return c.value ? `${c.key}=${c.value}` : c.key;
+                if (c.type === 'wildcard' || c.piiWarning) return c.key; // Match any value syntax
+                return c.value ? `${c.key}=${encodeURIComponent(c.value)}` : c.key;
             });
             rule += hashRuleParts.filter(Boolean).join(';');
         }
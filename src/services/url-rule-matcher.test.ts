@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { URLRuleMatcher, RuleSyntaxError } from './url-rule-matcher';
+
+const BASE = 'https://app.example.com';
+
+describe('URLRuleMatcher', () => {
+    const matcher = new URLRuleMatcher();
+
+    const syntaxError = (rule: string) => {
+        try {
+            matcher.parse(rule);
+        } catch (e) {
+            if (e instanceof RuleSyntaxError) return { message: e.message, position: e.position };
+            throw e;
+        }
+        throw new Error(`Expected "${rule}" to be rejected`);
+    };
+    const matches = (rule: string, url: string) => matcher.test(rule, url).matched;
+
+    describe('parse', () => {
+        it('reports where in the rule each problem starts', () => {
+            expect(syntaxError('')).toEqual({ message: 'Rule is empty', position: 0 });
+            expect(syntaxError('//*/a b')).toEqual({ message: 'Rules cannot contain whitespace', position: 5 });
+            expect(syntaxError('app.example.com/')).toMatchObject({ position: 0 });
+            expect(syntaxError('///pricing')).toEqual({ message: 'Missing domain: use * to match any domain', position: 2 });
+            expect(syntaxError('https:///pricing')).toMatchObject({ message: 'Missing domain: use * to match any domain', position: 8 });
+            expect(syntaxError('//app_x.com/')).toMatchObject({ position: 5 });
+            expect(syntaxError('//app.example.com:http/')).toEqual({ message: 'Port must be a number or *', position: 18 });
+            expect(syntaxError('//*/a/**/b')).toEqual({ message: 'Nothing may follow **', position: 9 });
+            expect(syntaxError('//*/a**')).toEqual({ message: '** must be a whole segment', position: 5 });
+            expect(syntaxError('//*/***')).toEqual({ message: 'Use * or **, not ***', position: 4 });
+            expect(syntaxError('//*/a?x=1?y')).toEqual({ message: 'Only one "?" is allowed', position: 9 });
+            expect(syntaxError('//*/a?x&&y')).toEqual({ message: 'Empty query parameter', position: 8 });
+            expect(syntaxError('//*/a?=1')).toEqual({ message: 'Query parameter is missing a key', position: 6 });
+            expect(syntaxError('//*/a#!home#x')).toEqual({ message: 'Only one "#" is allowed', position: 11 });
+            expect(syntaxError('//*/a#!home;;y')).toEqual({ message: 'Empty hash parameter', position: 12 });
+        });
+
+        it('decodes parameter values and treats * as any value', () => {
+            const parsed = matcher.parse('https://*/a;tab=*?q=hello%20world&page#!home;id=a+b');
+
+            expect(parsed.protocol).toBe('https:');
+            expect(parsed.path[0].matrix[0]).toMatchObject({ key: 'tab', value: null, raw: 'tab=*' });
+            expect(parsed.query.map(p => [p.key, p.value])).toEqual([['q', 'hello world'], ['page', null]]);
+            expect(parsed.hash).toMatchObject({ route: 'home', params: [{ key: 'id', value: 'a b' }] });
+        });
+    });
+
+    describe('test', () => {
+        it('matches * against one segment and ** against the rest of the path', () => {
+            expect(matches('//*/account/*/details', `${BASE}/account/42/details`)).toBe(true);
+            expect(matches('//*/account/*/details', `${BASE}/account/42/7/details`)).toBe(false);
+            expect(matches('//*/docs/**', `${BASE}/docs/guides/setup/`)).toBe(true);
+            expect(matches('//*/docs/**', `${BASE}/docs`)).toBe(true);
+            expect(matcher.test('//*/docs', `${BASE}/docs/guides`).reasons).toEqual([
+                'Path has extra segment(s) "guides" (end the rule with ** to allow them)'
+            ]);
+        });
+
+        it('checks matrix parameters on their segment', () => {
+            expect(matches('//*/report;view=summary/**', `${BASE}/report;view=summary;lang=en/2024`)).toBe(true);
+            expect(matcher.test('//*/report;view=summary', `${BASE}/report;view=full`).reasons).toEqual([
+                'Matrix parameter "view" is "full", expected "summary"'
+            ]);
+            expect(matcher.test('//*/report;view', `${BASE}/report`).reasons).toEqual(['Matrix parameter "view" is missing']);
+        });
+
+        it('checks the hash route and hash parameters', () => {
+            expect(matches('//*/app#!build/*;accountId', `${BASE}/app#!build/7;accountId=12;tab=x`)).toBe(true);
+            expect(matches('//*/app#!build/*;accountId', `${BASE}/app#build/7;accountId`)).toBe(true);
+            expect(matches('//*/app#!tab=settings', `${BASE}/app#!tab=settings`)).toBe(true);
+            expect(matcher.test('//*/app#!build;accountId=12', `${BASE}/app#!build;accountId=13`).reasons).toEqual([
+                'Hash parameter "accountId" is "13", expected "12"'
+            ]);
+            expect(matcher.test('//*/app#!build', `${BASE}/app`).reasons).toEqual(['URL has no hash']);
+        });
+
+        it('matches query parameters by decoded value, any of repeated values, and globs', () => {
+            expect(matches('//*/search?q=running%20shoes', `${BASE}/search?q=running+shoes`)).toBe(true);
+            expect(matches('//*/search?tag=b', `${BASE}/search?tag=a&tag=b`)).toBe(true);
+            expect(matches('//*/search?q=run*', `${BASE}/search?q=running`)).toBe(true);
+            expect(matcher.test('//*/search?q', `${BASE}/search`).reasons).toEqual(['Query parameter "q" is missing']);
+        });
+
+        it('ignores the port unless the rule names one, and fills in the default port', () => {
+            expect(matches('//app.example.com/', 'https://app.example.com:8443/')).toBe(true);
+            expect(matches('//app.example.com:443/', 'https://app.example.com/')).toBe(true);
+            expect(matches('//app.example.com:80/', 'http://app.example.com/')).toBe(true);
+            expect(matches('//app.example.com:8443/', 'https://app.example.com/')).toBe(false);
+            expect(matches('//app.example.com:*/', 'https://app.example.com:8443/')).toBe(true);
+            expect(matches('//*.example.com/', 'https://APP.example.com/')).toBe(true);
+        });
+
+        it('checks the protocol only when the rule has one', () => {
+            expect(matches('//*/', 'http://app.example.com/')).toBe(true);
+            expect(matches('HTTPS://*/', 'https://app.example.com/')).toBe(true);
+            expect(matcher.test('https://*/', 'http://app.example.com/').reasons).toEqual([
+                'Protocol "http:" does not match "https:"'
+            ]);
+        });
+
+        it('reports URLs that cannot be parsed instead of throwing', () => {
+            expect(matcher.test('//*/', '/relative/path')).toEqual({
+                url: '/relative/path', matched: false, reasons: ['Not a valid absolute URL']
+            });
+        });
+    });
+});
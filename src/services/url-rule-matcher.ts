@@ -0,0 +1,272 @@
+/**
+ * Thrown for rules that are not valid Pendo URL rules. `position` is the index in the
+ * rule string where the problem starts, so the UI can point at it.
+ */
+export class RuleSyntaxError extends Error {
+    constructor(message: string, public position: number) {
+        super(message);
+        this.name = 'RuleSyntaxError';
+    }
+}
+
+export interface ParsedRuleParam {
+    key: string;
+    value: string | null;  // null = key must be present with any value
+    raw: string;           // The parameter exactly as written in the rule
+    position: number;
+}
+
+export interface ParsedRuleSegment {
+    value: string;          // May contain * globs; '**' matches the rest of the path
+    matrix: ParsedRuleParam[];
+    position: number;
+}
+
+export interface ParsedRule {
+    source: string;
+    protocol: string | null;  // e.g. 'https:'; null matches any protocol
+    domain: string;         // '*' or a host pattern (may contain * globs and a :port)
+    path: ParsedRuleSegment[];
+    query: ParsedRuleParam[];
+    hash: { route: string; base: ParsedRuleSegment[] | null; params: ParsedRuleParam[] } | null;  // null base = any route
+}
+
+export interface RuleMatchResult {
+    url: string;
+    matched: boolean;
+    reasons: string[];      // Why the URL did not match; empty when it did
+}
+
+/**
+ * Parses Pendo page rules (domain, `*` and `**` path wildcards, matrix, query and `#!` hash
+ * parameters) and tests URLs against them.
+ */
+export class URLRuleMatcher {
+    public parse(rule: string): ParsedRule {
+        const source = rule;
+        if (!rule.trim()) throw new RuleSyntaxError('Rule is empty', 0);
+
+        const whitespace = rule.search(/\s/);
+        if (whitespace !== -1) throw new RuleSyntaxError('Rules cannot contain whitespace', whitespace);
+        // Positions stay relative to the full rule, so everything below is offset by an optional protocol
+        const protocolMatch = rule.match(/^([a-z][a-z0-9+.-]*:)(?=\/\/)/i);
+        const protocol = protocolMatch ? protocolMatch[1].toLowerCase() : null;
+        const start = protocolMatch ? protocolMatch[1].length : 0;
+        if (!rule.startsWith('//', start)) {
+            throw new RuleSyntaxError('Rules must start with "//" (optionally after a protocol) followed by a domain or *', start);
+        }
+
+        // Split off hash and query, remembering where each part starts
+        const hashIndex = rule.indexOf('#');
+        const beforeHash = hashIndex === -1 ? rule : rule.slice(0, hashIndex);
+        const queryIndex = beforeHash.indexOf('?');
+        const location = queryIndex === -1 ? beforeHash : beforeHash.slice(0, queryIndex);
+
+        const domainStart = start + 2;
+        const pathStart = location.indexOf('/', domainStart);
+        const domain = pathStart === -1 ? location.slice(domainStart) : location.slice(domainStart, pathStart);
+        if (!domain) throw new RuleSyntaxError('Missing domain: use * to match any domain', domainStart);
+        if (/[^A-Za-z0-9.*:-]/.test(domain)) {
+            throw new RuleSyntaxError(`Invalid character in domain "${domain}"`, domainStart + domain.search(/[^A-Za-z0-9.*:-]/));
+        }
+        const portIndex = domain.indexOf(':');
+        if (portIndex !== -1 && !/^(?:\d+|\*)$/.test(domain.slice(portIndex + 1))) {
+            throw new RuleSyntaxError('Port must be a number or *', domainStart + portIndex + 1);
+        }
+
+        const path = pathStart === -1 ? [] : this.parseSegments(location.slice(pathStart + 1), pathStart + 1, true);
+
+        if (queryIndex !== -1 && beforeHash.indexOf('?', queryIndex + 1) !== -1) {
+            throw new RuleSyntaxError('Only one "?" is allowed', beforeHash.indexOf('?', queryIndex + 1));
+        }
+        const query = queryIndex === -1
+            ? []
+            : this.parseParams(beforeHash.slice(queryIndex + 1), queryIndex + 1, '&', 'query parameter');
+
+        let hash: ParsedRule['hash'] = null;
+        if (hashIndex !== -1) {
+            const hashStart = hashIndex + (rule[hashIndex + 1] === '!' ? 2 : 1);
+            const hashText = rule.slice(hashStart);
+            if (hashText.includes('#')) throw new RuleSyntaxError('Only one "#" is allowed', hashStart + hashText.indexOf('#'));
+
+            // Without a route the hash is just parameters, e.g. #!tab=settings
+            const parts = hashText.split(';');
+            const hasBase = !parts[0].includes('=') && !!parts[0];
+            const base = hasBase ? parts[0] : '';
+            const paramsText = (hasBase ? parts.slice(1) : parts).join(';');
+            hash = {
+                route: base,
+                base: hasBase ? this.parseSegments(base, hashStart, false) : null,
+                params: paramsText ? this.parseParams(paramsText, hashStart + (hasBase ? base.length + 1 : 0), ';', 'hash parameter') : []
+            };
+        }
+
+        return { source, protocol, domain: domain.toLowerCase(), path, query, hash };
+    }
+
+    /**
+     * Tests a URL against a rule. Throws RuleSyntaxError if the rule itself is invalid.
+     */
+    public test(rule: string | ParsedRule, urlStr: string): RuleMatchResult {
+        const parsed = typeof rule === 'string' ? this.parse(rule) : rule;
+
+        let url: URL;
+        try {
+            url = new URL(urlStr);
+        } catch {
+            return { url: urlStr, matched: false, reasons: ['Not a valid absolute URL'] };
+        }
+
+        const reasons: string[] = [];
+
+        if (parsed.protocol && parsed.protocol !== url.protocol) {
+            reasons.push(`Protocol "${url.protocol}" does not match "${parsed.protocol}"`);
+        }
+
+        // A rule without a port matches any port; one with a port must match the URL's host:port
+        const host = parsed.domain.includes(':') ? `${url.hostname}:${url.port || this.defaultPort(url.protocol)}` : url.hostname;
+        if (parsed.domain !== '*' && !this.glob(parsed.domain, host.toLowerCase())) {
+            reasons.push(`Domain "${host}" does not match "${parsed.domain}"`);
+        }
+
+        reasons.push(...this.matchSegments(parsed.path, url.pathname, 'Path'));
+
+        const search = url.searchParams;
+        parsed.query.forEach(param => {
+            if (!search.has(param.key)) {
+                reasons.push(`Query parameter "${param.key}" is missing`);
+            } else if (param.value !== null && !search.getAll(param.key).some(v => this.glob(param.value!, v))) {
+                reasons.push(`Query parameter "${param.key}" is "${search.get(param.key)}", expected "${param.value}"`);
+            }
+        });
+
+        if (parsed.hash) {
+            const parts = url.hash.replace(/^#!?/, '').split(';');
+            const hasBase = !!parts[0] && !parts[0].includes('=');
+            if (!url.hash) {
+                reasons.push('URL has no hash');
+            } else {
+                if (parsed.hash.base) reasons.push(...this.matchSegments(parsed.hash.base, hasBase ? parts[0] : '', 'Hash'));
+                reasons.push(...this.matchParams(parsed.hash.params, hasBase ? parts.slice(1) : parts, 'Hash parameter'));
+            }
+        }
+
+        return { url: urlStr, matched: reasons.length === 0, reasons };
+    }
+
+    private parseSegments(text: string, offset: number, allowMatrix: boolean): ParsedRuleSegment[] {
+        const segments: ParsedRuleSegment[] = [];
+        let position = offset;
+
+        // Trailing and doubled slashes carry no meaning in Pendo rules
+        text.split('/').forEach(raw => {
+            const start = position;
+            position += raw.length + 1;
+            if (!raw) return;
+
+            const [value, ...matrix] = raw.split(';');
+            if (matrix.length && !allowMatrix) {
+                throw new RuleSyntaxError('Matrix parameters are not allowed here', start + value.length);
+            }
+            if (/\*{3,}/.test(value)) throw new RuleSyntaxError('Use * or **, not ***', start + value.indexOf('***'));
+            if (value.includes('**') && value !== '**') {
+                throw new RuleSyntaxError('** must be a whole segment', start + value.indexOf('**'));
+            }
+            if (segments.some(s => s.value === '**')) {
+                throw new RuleSyntaxError('Nothing may follow **', start);
+            }
+
+            segments.push({
+                value,
+                matrix: matrix.length ? this.parseParams(matrix.join(';'), start + value.length + 1, ';', 'matrix parameter') : [],
+                position: start
+            });
+        });
+
+        return segments;
+    }
+
+    private parseParams(text: string, offset: number, separator: string, label: string): ParsedRuleParam[] {
+        const params: ParsedRuleParam[] = [];
+        let position = offset;
+
+        text.split(separator).forEach(raw => {
+            const start = position;
+            position += raw.length + 1;
+            if (!raw) throw new RuleSyntaxError(`Empty ${label}`, start);
+
+            const eq = raw.indexOf('=');
+            const key = eq === -1 ? raw : raw.slice(0, eq);
+            if (!key) throw new RuleSyntaxError(`${label[0].toUpperCase()}${label.slice(1)} is missing a key`, start);
+
+            const value = eq === -1 ? null : this.safeDecode(raw.slice(eq + 1));
+            params.push({ key: this.safeDecode(key), value: value === '*' ? null : value, raw, position: start });
+        });
+
+        return params;
+    }
+
+    private matchSegments(rule: ParsedRuleSegment[], actual: string, label: string): string[] {
+        const segments = actual.split('/').filter(Boolean);
+
+        for (let i = 0; i < rule.length; i++) {
+            const expected = rule[i];
+            if (expected.value === '**') return [];
+
+            const segment = segments[i];
+            if (segment === undefined) {
+                return [`${label} is too short: expected "${expected.value}" at segment ${i + 1}`];
+            }
+
+            const [value, ...matrix] = segment.split(';');
+            if (!this.glob(expected.value, value)) {
+                return [`${label} segment ${i + 1} is "${value}", expected "${expected.value}"`];
+            }
+
+            const matrixReasons = this.matchParams(expected.matrix, matrix, 'Matrix parameter');
+            if (matrixReasons.length) return matrixReasons;
+        }
+
+        if (segments.length > rule.length) {
+            return [`${label} has extra segment(s) "${segments.slice(rule.length).join('/')}" (end the rule with ** to allow them)`];
+        }
+        return [];
+    }
+
+    private matchParams(rule: ParsedRuleParam[], actual: string[], label: string): string[] {
+        const values = new Map<string, string>();
+        actual.forEach(part => {
+            const eq = part.indexOf('=');
+            values.set(eq === -1 ? part : part.slice(0, eq), eq === -1 ? '' : this.safeDecode(part.slice(eq + 1)));
+        });
+
+        return rule.flatMap(param => {
+            if (!values.has(param.key)) return [`${label} "${param.key}" is missing`];
+            if (param.value !== null && !this.glob(param.value, values.get(param.key)!)) {
+                return [`${label} "${param.key}" is "${values.get(param.key)}", expected "${param.value}"`];
+            }
+            return [];
+        });
+    }
+
+    /**
+     * Matches a value against a pattern where * stands for any run of characters.
+     */
+    private glob(pattern: string, value: string): boolean {
+        if (!pattern.includes('*')) return pattern === value;
+        const regex = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+        return new RegExp(`^${regex}$`).test(value);
+    }
+
+    private defaultPort(protocol: string): string {
+        return protocol === 'https:' ? '443' : protocol === 'http:' ? '80' : '';
+    }
+
+    private safeDecode(value: string): string {
+        try {
+            return decodeURIComponent(value.replace(/\+/g, ' '));
+        } catch {
+            return value;
+        }
+    }
+}
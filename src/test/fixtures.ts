@@ -0,0 +1,175 @@
+/**
+ * Fixture pages for the selector tests. Each builds its DOM into the current document
+ * (jsdom in the test environment) and returns the elements the scenarios select.
+ */
+
+export function resetPage() {
+    document.body.innerHTML = '';
+}
+
+function withShadow(host: Element, html: string, mode: ShadowRootMode = 'open'): ShadowRoot {
+    const root = host.attachShadow({ mode });
+    root.innerHTML = html;
+    return root;
+}
+
+function byId<T extends HTMLElement = HTMLElement>(root: Document | ShadowRoot, id: string): T {
+    const element = root.getElementById(id);
+    if (!element) throw new Error(`Fixture is missing #${id}`);
+    return element as T;
+}
+
+/**
+ * Plain light DOM page with a content area and a deeply nested button.
+ */
+export function mountStandardPage() {
+    document.body.innerHTML = `
+        <div id="main-content">
+            <div id="container">
+                <div class="middle">
+                    <button id="nested-button" class="primary large">Go</button>
+                </div>
+            </div>
+        </div>
+    `;
+    return {
+        main: byId(document, 'main-content'),
+        button: byId(document, 'nested-button')
+    };
+}
+
+/**
+ * <my-component> with an open shadow root holding a save button and a styled submit button.
+ */
+export function mountShadowComponent() {
+    document.body.innerHTML = `<my-component></my-component>`;
+    const host = document.querySelector('my-component') as HTMLElement;
+    const root = withShadow(host, `
+        <button id="save">Save</button>
+        <button class="primary" aria-label="Submit">Submit</button>
+    `);
+    return {
+        host,
+        save: byId(root, 'save'),
+        submit: root.querySelector('button.primary') as HTMLElement
+    };
+}
+
+/**
+ * Three levels of open shadow roots: app-shell → side-nav → item-link.
+ */
+export function mountNestedShadow() {
+    document.body.innerHTML = `<app-shell></app-shell>`;
+    const shell = document.querySelector('app-shell') as HTMLElement;
+    const shellRoot = withShadow(shell, `<side-nav></side-nav>`);
+    const nav = shellRoot.querySelector('side-nav') as HTMLElement;
+    const navRoot = withShadow(nav, `<item-link>Home</item-link>`);
+    return { link: navRoot.querySelector('item-link') as HTMLElement };
+}
+
+/**
+ * Light DOM title projected into a named slot of <page-header>.
+ */
+export function mountSlottedContent() {
+    document.body.innerHTML = `
+        <page-header>
+            <h1 id="header-title" slot="title">Dashboard</h1>
+        </page-header>
+    `;
+    const header = document.querySelector('page-header') as HTMLElement;
+    withShadow(header, `<div class="bar"><slot name="title"></slot></div>`);
+    return { title: byId(document, 'header-title') };
+}
+
+/**
+ * Component whose internals live in a closed shadow root.
+ */
+export function mountClosedShadow() {
+    document.body.innerHTML = `<closed-component></closed-component>`;
+    const host = document.querySelector('closed-component') as HTMLElement;
+    const root = withShadow(host, `<button class="inner">Hidden</button>`, 'closed');
+    return { host, root };
+}
+
+/**
+ * Repeated list items sharing one id, plus a button with a generated id.
+ */
+export function mountDynamicIds() {
+    document.body.innerHTML = `
+        <ul>
+            <li id="row">First</li>
+            <li id="row">Second</li>
+        </ul>
+        <button id="btn-839201">Generated</button>
+    `;
+    const rows = document.querySelectorAll('li');
+    return {
+        row: rows[0] as HTMLElement,
+        generated: byId(document, 'btn-839201')
+    };
+}
+
+/**
+ * Modal dialog with a generic light DOM button and a shadow-rendered <ok-button>.
+ * A native <button> cannot host a shadow root, so the shadow host is a custom element.
+ */
+export function mountModal() {
+    document.body.innerHTML = `
+        <div id="modal-dialog">
+            <div class="modal-body">
+                <div class="actions">
+                    <button data-locator="button-ok">OK</button>
+                </div>
+                <ok-button></ok-button>
+            </div>
+        </div>
+        <button data-locator="button-cancel">Cancel</button>
+    `;
+    const host = document.querySelector('ok-button') as HTMLElement;
+    const root = withShadow(host, `<span data-locator="button-ok">OK</span>`);
+    return {
+        lightButton: document.querySelector('#modal-dialog button') as HTMLElement,
+        shadowButton: root.querySelector('[data-locator="button-ok"]') as HTMLElement
+    };
+}
+
+/**
+ * Light DOM app container around two nested shadow components.
+ */
+export function mountAppContainer() {
+    document.body.innerHTML = `
+        <div id="app-container">
+            <main>
+                <outer-component></outer-component>
+            </main>
+        </div>
+    `;
+    const outer = document.querySelector('outer-component') as HTMLElement;
+    const outerRoot = withShadow(outer, `<section><inner-component></inner-component></section>`);
+    const inner = outerRoot.querySelector('inner-component') as HTMLElement;
+    const innerRoot = withShadow(inner, `<button>Launch</button>`);
+    return { button: innerRoot.querySelector('button') as HTMLElement };
+}
+
+/**
+ * Benchmark page in the style of a component library: every card nests `depth` levels of open shadow
+ * roots, each with some plain markup, and the innermost level holds an action button.
+ */
+export function mountDesignSystemPage({ components, depth }: { components: number; depth: number }) {
+    const filler = '<div class="ds-stack"><span class="ds-label">Label</span><span class="ds-hint">Hint</span></div>';
+    const cards: string[] = [];
+    for (let i = 0; i < components; i++) cards.push(`<section class="ds-grid-cell"><ds-card data-index="${i}"></ds-card></section>`);
+    document.body.innerHTML = `<main id="app">${cards.join('')}</main>`;
+
+    document.querySelectorAll('ds-card').forEach(card => {
+        let host: Element = card;
+        for (let level = 1; level <= depth; level++) {
+            const root = host.attachShadow({ mode: 'open' });
+            const inner = level === depth
+                ? `<button class="ds-button" data-testid="action-${card.getAttribute('data-index')}">Go</button>`
+                : '<ds-layer></ds-layer>';
+            root.innerHTML = `${filler}${filler}<div class="ds-body">${inner}</div>`;
+            host = root.querySelector('ds-layer') ?? host;
+        }
+    });
+}
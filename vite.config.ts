@@ -1,18 +1,41 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import { resolve } from 'path';
 
-export default defineConfig({
-    plugins: [react()],
+// The service worker is built in a separate pass (`--mode background`): content scripts are classic
+// scripts that cannot import shared chunks, so no module may be split out between the two.
+// `--mode cli` builds the Node CLI; jsdom stays external as a runtime dependency.
+export default defineConfig(({ mode }) => mode === 'cli' ? {
     build: {
+        ssr: resolve(__dirname, 'src/cli/index.ts'),
+        emptyOutDir: false,
         rollupOptions: {
-            input: {
-                background: resolve(__dirname, 'src/background/index.ts'),
-                content: resolve(__dirname, 'src/content/index.ts'),
+            output: {
+                entryFileNames: 'shadow-tagger-cli.mjs',
+                banner: '#!/usr/bin/env node',
             },
+        },
+    },
+} : {
+    plugins: [react()],
+    build: {
+        emptyOutDir: mode !== 'background',
+        rollupOptions: {
+            input: mode === 'background'
+                ? { background: resolve(__dirname, 'src/background/index.ts') }
+                : {
+                    content: resolve(__dirname, 'src/content/index.ts'),
+                    'history-hook': resolve(__dirname, 'src/content/history-hook.ts'),
+                    'shadow-root-hook': resolve(__dirname, 'src/content/shadow-root-hook.ts'),
+                },
             output: {
                 entryFileNames: '[name].js',
             },
         },
     },
+    test: {
+        environment: 'jsdom',
+        include: ['src/**/*.test.ts'],
+    },
 });